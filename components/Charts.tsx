@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+
+export interface ChartSeries {
+    label: string;
+    color: string;
+    values: number[];
+}
+
+const toPoints = (values: number[], width: number, height: number, min: number, max: number, length: number) => {
+    const span = max - min || 1;
+    const step = length > 1 ? width / (length - 1) : 0;
+    // Right-align shorter series so "now" is always the right edge
+    const offset = length - values.length;
+    return values
+        .map((v, i) => `${((i + offset) * step).toFixed(1)},${(height - ((v - min) / span) * height).toFixed(1)}`)
+        .join(' ');
+};
+
+const extent = (series: number[][], fixed?: [number, number]): [number, number] => {
+    if (fixed) return fixed;
+    const all = series.flat();
+    if (!all.length) return [0, 1];
+    const lo = Math.min(...all);
+    const hi = Math.max(...all);
+    return lo === hi ? [lo - 1, hi + 1] : [lo, hi];
+};
+
+interface SparklineProps {
+    values: number[];
+    color: string;
+    width?: number;
+    height?: number;
+    domain?: [number, number];
+}
+
+/** Tiny trend line for inline use next to a stat. */
+export const Sparkline: React.FC<SparklineProps> = ({ values, color, width = 60, height = 16, domain }) => {
+    if (values.length < 2) return <svg width={width} height={height} className="sparkline" />;
+    const [min, max] = extent([values], domain);
+    return (
+        <svg width={width} height={height} className="sparkline" viewBox={`0 0 ${width} ${height}`}>
+            <polyline points={toPoints(values, width, height, min, max, values.length)} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" />
+        </svg>
+    );
+};
+
+interface LineChartProps {
+    series: ChartSeries[];
+    ticks: number[]; // Simulation day for each x position, newest last
+    height?: number;
+    domain?: [number, number];
+    formatValue?: (v: number) => string;
+}
+
+const CHART_WIDTH = 260;
+
+/** Multi-series line chart with a min/max axis and day range footer. */
+export const LineChart: React.FC<LineChartProps> = ({ series, ticks, height = 80, domain, formatValue = v => Math.round(v).toString() }) => {
+    const length = Math.max(ticks.length, ...series.map(s => s.values.length));
+    const [min, max] = extent(series.map(s => s.values), domain);
+
+    return (
+        <div className="line-chart">
+            <div className="line-chart-body">
+                <div className="line-chart-axis">
+                    <span>{formatValue(max)}</span>
+                    <span>{formatValue(min)}</span>
+                </div>
+                <svg width="100%" height={height} viewBox={`0 0 ${CHART_WIDTH} ${height}`} preserveAspectRatio="none">
+                    <line x1={0} y1={height / 2} x2={CHART_WIDTH} y2={height / 2} stroke="#f4f4f5" />
+                    {length > 1 && series.map((s, i) => (
+                        <polyline
+                            key={i}
+                            points={toPoints(s.values, CHART_WIDTH, height, min, max, length)}
+                            fill="none"
+                            stroke={s.color}
+                            strokeWidth={2}
+                            strokeLinejoin="round"
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    ))}
+                </svg>
+            </div>
+            <div className="line-chart-footer">
+                <span>{ticks.length ? `Day ${ticks[0]}` : 'No data yet'}</span>
+                <span className="line-chart-legend">
+                    {series.map((s, i) => (
+                        <span key={i}><i style={{ background: s.color }} />{s.label}</span>
+                    ))}
+                </span>
+                <span>{ticks.length ? `Day ${ticks[ticks.length - 1]}` : ''}</span>
+            </div>
+        </div>
+    );
+};
@@ -5,8 +5,16 @@
  */
 
 import React, { useMemo, useRef, useState, useCallback } from 'react';
-import { CityGraph, TiltShiftParams, CameraState } from '../types';
-import { DistrictNode } from './DistrictNode';
+import { CityEvent, CityEventType, CityGraph, District, DistrictType, TiltShiftParams, CameraState, OverlayMode, RoadRef } from '../types';
+import { ROAD_TIERS } from '../constants';
+import { isSameRoad, roadTierOf } from '../utils/roads';
+import { gridCenterToSvg, gridToSvg, screenToGrid } from '../utils/isometric';
+import { isCellOccupied } from '../utils/placement';
+import { describeRoadFlow, linkTrafficFlow } from '../utils/simulation';
+import { getCityRules } from '../utils/simulationRules';
+import { overlayColor, roadFlowWidth, roadLoadColor } from '../utils/overlay';
+import { DistrictNode, DISTRICT_COLORS } from './DistrictNode';
+import RoadTraffic from './RoadTraffic';
 
 interface CityCanvasProps {
     city: CityGraph;
@@ -15,29 +23,69 @@ interface CityCanvasProps {
     onCameraChange: (cam: CameraState) => void;
     onDistrictSelect: (id: string) => void;
     selectedId: string | null;
+    isRoadTool: boolean;
+    roadStartId: string | null; // First district picked with the road tool
+    selectedRoad: RoadRef | null;
+    onRoadSelect: (road: RoadRef) => void;
+    onDistrictMove: (id: string, gridX: number, gridY: number) => void;
+    ghost: { x: number; y: number; type?: DistrictType } | null; // Cell a district is being generated for
+    staged: { district: District; parentId: string | null } | null; // Generated district awaiting Accept
+    onStagedSelect: () => void;
+    events: CityEvent[]; // Active ones, shown as an indicator on their district
+    overlay: OverlayMode; // Tints tiles by this stat and draws roads by traffic flow
+    animateTraffic: boolean;
 }
 
+// Rhombus matching the DistrictNode base, used to highlight the drop cell
+const CELL_OUTLINE = 'M0,30 L60,0 L120,30 L60,60 Z';
+
+// Pedestrians on a road: one per this many residents in the two districts it joins
+const RESIDENTS_PER_WALKER = 1500;
+const MAX_WALKERS = 6;
+
 const CityCanvas: React.FC<CityCanvasProps> = ({ 
     city, 
     tiltShift, 
     camera,
     onCameraChange,
     onDistrictSelect, 
-    selectedId 
+    selectedId,
+    isRoadTool,
+    roadStartId,
+    selectedRoad,
+    onRoadSelect,
+    onDistrictMove,
+    ghost,
+    staged,
+    onStagedSelect,
+    events,
+    overlay,
+    animateTraffic
 }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const [isDragging, setIsDragging] = useState(false);
     const lastMousePos = useRef({ x: 0, y: 0 });
     const dragThresholdMet = useRef(false);
 
-    // Simple isometric projection helpers
-    const TILE_W = 140;
-    const TILE_H = 80;
+    // District being dragged to a new cell; `cell` is where it would land if dropped now
+    const [moving, setMoving] = useState<{ id: string; cell: { x: number; y: number } } | null>(null);
+    const moveStart = useRef<{ id: string; x: number; y: number } | null>(null);
 
-    // Sort districts by depth (x + y) so closer ones render on top (Painter's Algorithm)
+    const cellOf = useCallback((d: District) => moving && moving.id === d.id ? moving.cell : { x: d.gridX, y: d.gridY }, [moving]);
+    const dropBlocked = !!moving && isCellOccupied(city, moving.cell.x, moving.cell.y, moving.id);
+
+    // Sort districts by depth (x + y) so closer ones render on top (Painter's Algorithm); the staged one sorts in with the rest
     const sortedDistricts = useMemo(() => {
-        return [...city.districts].sort((a, b) => (a.gridX + a.gridY) - (b.gridX + b.gridY));
-    }, [city.districts]);
+        const depth = (d: District) => cellOf(d).x + cellOf(d).y;
+        return [...city.districts, ...(staged ? [staged.district] : [])].sort((a, b) => depth(a) - depth(b));
+    }, [city.districts, staged, cellOf]);
+
+    // Roads look up both ends on every render, so index districts once per change rather than scanning per edge
+    const districtById = useMemo(() => new Map(city.districts.map(d => [d.id, d])), [city.districts]);
+    const stagedParent = staged && districtById.get(staged.parentId);
+    const eventAt = useMemo(() => new Map<string, CityEventType>(events.map(e => [e.districtId, e.type])), [events]);
+    const tintOf = (d: District) => overlay ? overlayColor(overlay, d.stats[overlay]) : undefined;
+    const rules = useMemo(() => getCityRules(city), [city]);
 
     // --- Interaction Handlers ---
 
@@ -54,7 +102,24 @@ const CityCanvas: React.FC<CityCanvasProps> = ({
         dragThresholdMet.current = false;
     }, []);
 
+    // Pressing on a tile arms a move; it only becomes a drag once the pointer travels
+    const handleDistrictMouseDown = (e: React.MouseEvent, district: District) => {
+        if (isRoadTool || e.button !== 0) return;
+        e.stopPropagation();
+        moveStart.current = { id: district.id, x: e.clientX, y: e.clientY };
+        dragThresholdMet.current = false;
+    };
+
     const handleMouseMove = useCallback((e: React.MouseEvent) => {
+        if (moveStart.current) {
+            const start = moveStart.current;
+            if (!dragThresholdMet.current && Math.abs(e.clientX - start.x) <= 3 && Math.abs(e.clientY - start.y) <= 3) return;
+            dragThresholdMet.current = true;
+            const rect = containerRef.current!.getBoundingClientRect();
+            const cell = screenToGrid(e.clientX, e.clientY, rect, camera);
+            setMoving(prev => prev && prev.cell.x === cell.x && prev.cell.y === cell.y ? prev : { id: start.id, cell });
+            return;
+        }
         if (!isDragging) return;
 
         const dx = e.clientX - lastMousePos.current.x;
@@ -75,10 +140,20 @@ const CityCanvas: React.FC<CityCanvasProps> = ({
 
     const handleMouseUp = useCallback(() => {
         setIsDragging(false);
-    }, []);
+        if (moving && !dropBlocked) {
+            const district = city.districts.find(d => d.id === moving.id);
+            if (district && (district.gridX !== moving.cell.x || district.gridY !== moving.cell.y)) {
+                onDistrictMove(moving.id, moving.cell.x, moving.cell.y);
+            }
+        }
+        moveStart.current = null;
+        setMoving(null);
+    }, [moving, dropBlocked, city.districts, onDistrictMove]);
 
     const handleMouseLeave = useCallback(() => {
         setIsDragging(false);
+        moveStart.current = null;
+        setMoving(null);
     }, []);
 
     const handleDistrictClick = (id: string) => {
@@ -87,6 +162,14 @@ const CityCanvas: React.FC<CityCanvasProps> = ({
         }
     };
 
+    const handleRoadClick = (road: RoadRef) => {
+        if (!dragThresholdMet.current) {
+            onRoadSelect(road);
+        }
+    };
+
+    const idleCursor = isRoadTool ? 'crosshair' : 'grab';
+
     return (
         <div 
             ref={containerRef}
@@ -102,7 +185,7 @@ const CityCanvas: React.FC<CityCanvasProps> = ({
                 overflow: 'hidden',
                 backgroundColor: '#88ccff', // Sky blue base
                 backgroundImage: 'radial-gradient(circle at center, #aaddff 0%, #88ccff 100%)',
-                cursor: isDragging ? 'grabbing' : 'grab'
+                cursor: isDragging || moving ? 'grabbing' : idleCursor
             }}
         >
             {/* Camera Rig - Handles 2D Pan/Zoom */}
@@ -136,41 +219,122 @@ const CityCanvas: React.FC<CityCanvasProps> = ({
                         height="0" 
                         style={{ overflow: 'visible', pointerEvents: 'auto' }}
                     >
-                        {/* Render Edges (Roads) */}
-                        {city.edges.map((edge, i) => {
-                            const src = city.districts.find(d => d.id === edge.sourceId);
-                            const tgt = city.districts.find(d => d.id === edge.targetId);
+                        {/* Render Edges (Roads), styled by capacity tier */}
+                        {city.edges.map(edge => {
+                            const src = districtById.get(edge.sourceId);
+                            const tgt = districtById.get(edge.targetId);
                             if (!src || !tgt) return null;
 
-                            const x1 = (src.gridX - src.gridY) * TILE_W / 2;
-                            const y1 = (src.gridX + src.gridY) * TILE_H / 2;
-                            const x2 = (tgt.gridX - tgt.gridY) * TILE_W / 2;
-                            const y2 = (tgt.gridX + tgt.gridY) * TILE_H / 2;
+                            // Ends follow a district while it is being dragged
+                            const a = gridCenterToSvg(cellOf(src).x, cellOf(src).y);
+                            const b = gridCenterToSvg(cellOf(tgt).x, cellOf(tgt).y);
+
+                            const tier = ROAD_TIERS[roadTierOf(edge.capacity)];
+                            const isSelected = !!selectedRoad && isSameRoad(edge, selectedRoad);
+                            const ends = { x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+                            const flow = overlay ? describeRoadFlow(src, tgt, edge.capacity, rules) : null;
 
                             return (
-                                <line 
-                                    key={`edge-${i}`} 
-                                    x1={x1 + 60} y1={y1 + 30} 
-                                    x2={x2 + 60} y2={y2 + 30} 
-                                    stroke="#555" 
-                                    strokeWidth="8" 
-                                    strokeLinecap="round"
-                                    style={{ filter: 'drop-shadow(0 2px 2px rgba(0,0,0,0.5))' }}
-                                />
+                                <g
+                                    key={`edge-${edge.sourceId}-${edge.targetId}`}
+                                    className="road"
+                                    onClick={() => handleRoadClick({ sourceId: edge.sourceId, targetId: edge.targetId })}
+                                    style={{ cursor: 'pointer' }}
+                                >
+                                    {flow && <title>{`${Math.round(flow.demand)} traffic, ${Math.round(flow.load * 100)}% of capacity`}</title>}
+                                    {isSelected && (
+                                        <line {...ends} stroke="#3b82f6" strokeWidth={tier.width + 8} strokeLinecap="round" opacity={0.6} />
+                                    )}
+                                    <line 
+                                        {...ends}
+                                        stroke={flow ? roadLoadColor(flow.load) : tier.color} 
+                                        strokeWidth={flow ? roadFlowWidth(flow.demand) : tier.width} 
+                                        strokeLinecap="round"
+                                        style={{ filter: 'drop-shadow(0 2px 2px rgba(0,0,0,0.5))' }}
+                                    />
+                                    {tier.marking && !flow && (
+                                        <line {...ends} stroke={tier.marking} strokeWidth={tier.width > 10 ? 2 : 1} strokeDasharray="6 6" />
+                                    )}
+                                    <RoadTraffic
+                                        from={a}
+                                        to={b}
+                                        there={linkTrafficFlow(src, edge.capacity, rules)}
+                                        back={linkTrafficFlow(tgt, edge.capacity, rules)}
+                                        laneOffset={tier.width / 4}
+                                        walkers={Math.min(MAX_WALKERS, Math.round((src.stats.population + tgt.stats.population) / RESIDENTS_PER_WALKER))}
+                                        seed={`${edge.sourceId}-${edge.targetId}`}
+                                        animate={animateTraffic}
+                                    />
+                                    {/* Wide invisible hit area so thin lanes are still easy to click */}
+                                    <line {...ends} stroke="transparent" strokeWidth={Math.max(tier.width, 20)} strokeLinecap="round" />
+                                </g>
                             );
                         })}
 
+                        {/* Road the staged district would be built with */}
+                        {staged && stagedParent && (() => {
+                            const a = gridCenterToSvg(cellOf(stagedParent).x, cellOf(stagedParent).y);
+                            const b = gridCenterToSvg(staged.district.gridX, staged.district.gridY);
+                            return <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} className="staged-road" />;
+                        })()}
+
+                        {/* Ghost of the district being generated; takes the type colour once the type streams in */}
+                        {ghost && (() => {
+                            const { x, y } = gridToSvg(ghost.x, ghost.y);
+                            return (
+                                <path
+                                    d={CELL_OUTLINE}
+                                    transform={`translate(${x}, ${y})`}
+                                    className="ghost-tile"
+                                    style={ghost.type ? { fill: DISTRICT_COLORS[ghost.type] } : undefined}
+                                />
+                            );
+                        })()}
+
+                        {/* Drop target: green when free, red when another district is there */}
+                        {moving && (() => {
+                            const target = gridToSvg(moving.cell.x, moving.cell.y);
+                            return (
+                                <path
+                                    d={CELL_OUTLINE}
+                                    transform={`translate(${target.x}, ${target.y})`}
+                                    className={`drop-target ${dropBlocked ? 'blocked' : ''}`}
+                                />
+                            );
+                        })()}
+
                         {/* Render Districts in Depth Order */}
                         {sortedDistricts.map(district => {
-                            const screenX = (district.gridX - district.gridY) * TILE_W / 2;
-                            const screenY = (district.gridX + district.gridY) * TILE_H / 2;
+                            const cell = cellOf(district);
+                            const { x: screenX, y: screenY } = gridToSvg(cell.x, cell.y);
+                            const isMoving = moving?.id === district.id;
+
+                            if (district === staged?.district) {
+                                return (
+                                    <g
+                                        key={`staged-${district.id}`}
+                                        transform={`translate(${screenX}, ${screenY})`}
+                                        className="staged-district"
+                                    >
+                                        <DistrictNode district={district} isSelected={false} tint={tintOf(district)} onClick={() => !dragThresholdMet.current && onStagedSelect()} />
+                                    </g>
+                                );
+                            }
 
                             return (
-                                <g key={district.id} transform={`translate(${screenX}, ${screenY})`}>
+                                <g
+                                    key={district.id}
+                                    transform={`translate(${screenX}, ${screenY})`}
+                                    onMouseDown={(e) => handleDistrictMouseDown(e, district)}
+                                    opacity={isMoving ? 0.75 : 1}
+                                    style={{ pointerEvents: isMoving ? 'none' : undefined }}
+                                >
                                     <DistrictNode 
                                         district={district} 
-                                        isSelected={selectedId === district.id}
+                                        isSelected={selectedId === district.id || roadStartId === district.id}
                                         onClick={() => handleDistrictClick(district.id)}
+                                        event={eventAt.get(district.id)}
+                                        tint={tintOf(district)}
                                     />
                                 </g>
                             );
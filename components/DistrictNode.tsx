@@ -5,15 +5,19 @@
  */
 
 import React, { useMemo } from 'react';
-import { District } from '../types';
+import { CityEventType, District, DistrictType } from '../types';
+import { createRng, hashSeed } from '../utils/rng';
+import { EVENT_DEFINITIONS } from '../utils/events';
 
 interface DistrictNodeProps {
     district: District;
     onClick: () => void;
     isSelected: boolean;
+    event?: CityEventType; // Active event centred here
+    tint?: string; // Overlay colour replacing the type colour of the ground
 }
 
-const COLORS = {
+export const DISTRICT_COLORS: Record<DistrictType, string> = {
     residential: '#4ade80', // Green-ish
     commercial: '#60a5fa', // Blue
     industrial: '#fbbf24', // Amber
@@ -23,11 +27,12 @@ const COLORS = {
 
 const BASE_SIZE = 120; // Size of the tile
 
-export const DistrictNode: React.FC<DistrictNodeProps> = ({ district, onClick, isSelected }) => {
+export const DistrictNode: React.FC<DistrictNodeProps> = ({ district, onClick, isSelected, event, tint }) => {
     
     // Deterministic random generation for visuals based on ID
     const visualElements = useMemo(() => {
-        const seed = district.id.charCodeAt(0) + district.id.length;
+        const buildingRng = createRng(hashSeed(district.id));
+        const treeRng = createRng(hashSeed(`${district.id}:trees`));
         const elements = [];
         
         // Base ground (Rhombus)
@@ -36,7 +41,7 @@ export const DistrictNode: React.FC<DistrictNodeProps> = ({ district, onClick, i
             <path 
                 key="base" 
                 d={`M0,${BASE_SIZE/4} L${BASE_SIZE/2},0 L${BASE_SIZE},${BASE_SIZE/4} L${BASE_SIZE/2},${BASE_SIZE/2} Z`} 
-                fill={COLORS[district.type]}
+                fill={tint ?? DISTRICT_COLORS[district.type]}
                 stroke={isSelected ? '#fff' : 'rgba(255,255,255,0.2)'}
                 strokeWidth={isSelected ? 4 : 1}
                 className="district-base"
@@ -50,7 +55,7 @@ export const DistrictNode: React.FC<DistrictNodeProps> = ({ district, onClick, i
         
         buildings.forEach((b, i) => {
             // Pseudo-random position within the rhombus
-            const offset = (seed + i * 15) % 40; 
+            const offset = buildingRng.int(40);
             const x = 30 + offset; 
             const y = 10 + offset/2; 
             const h = b.type === 'highrise' ? 60 : (b.type === 'factory' ? 30 : 20);
@@ -90,8 +95,8 @@ export const DistrictNode: React.FC<DistrictNodeProps> = ({ district, onClick, i
         if (district.visuals.greenery > 0) {
              const treeCount = Math.floor(district.visuals.greenery * 5);
              for(let t=0; t<treeCount; t++) {
-                 const tx = 20 + ((seed * t * 7) % 80);
-                 const ty = 20 + ((seed * t * 3) % 20);
+                 const tx = 20 + treeRng.int(80);
+                 const ty = 20 + treeRng.int(20);
                  elements.push(
                      <circle key={`tree-${t}`} cx={tx} cy={ty} r={6} fill="#14532d" />
                  );
@@ -99,7 +104,7 @@ export const DistrictNode: React.FC<DistrictNodeProps> = ({ district, onClick, i
         }
 
         return elements;
-    }, [district, isSelected]);
+    }, [district, isSelected, tint]);
 
     return (
         <g 
@@ -119,6 +124,12 @@ export const DistrictNode: React.FC<DistrictNodeProps> = ({ district, onClick, i
              {district.stats.trafficFlow > 80 && (
                 <text x={20} y={0} textAnchor="middle" fontSize="20">🚗</text>
             )}
+            {event && (
+                <g className={`event-indicator ${event}`}>
+                    <circle cx={96} cy={-10} r={16} />
+                    <text x={96} y={-3} textAnchor="middle" fontSize="18">{EVENT_DEFINITIONS[event].icon}</text>
+                </g>
+            )}
         </g>
     );
 };
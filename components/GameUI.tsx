@@ -4,9 +4,17 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React from 'react';
-import { CityGraph, CameraState } from '../types';
-import { ThinkingIcon, SparklesIcon, UndoIcon } from './Icons';
+import React, { useState } from 'react';
+import { CityGraph, DistrictStats, GenerationMode, GenerationProgress, GoalProgress, OverlayMode, RoadTier, Scenario, ScenarioResult, SimSpeed } from '../types';
+import { ROAD_TIERS } from '../constants';
+import { formatMoney } from '../utils/budget';
+import { describeGoal, formatGoalValue, GOAL_LABELS } from '../utils/scenarios';
+import { STAT_LABELS } from '../utils/statHistory';
+import { cssGradient, OVERLAY_GRADIENTS, overlayMax, ROAD_LOAD_GRADIENT } from '../utils/overlay';
+import { ThinkingIcon, SparklesIcon, UndoIcon, RedoIcon, CenterIcon, CloseIcon, CodeIcon, SaveIcon, SettingsIcon, ChartIcon, AdvisorIcon, CoinIcon, BellIcon, FlagIcon, PlayIcon, PauseIcon, StepIcon, FastForwardIcon, RoadIcon, LayersIcon } from './Icons';
+
+const SPEEDS: SimSpeed[] = [1, 2, 4];
+const OVERLAYS: (keyof DistrictStats)[] = ['pollution', 'trafficFlow', 'happiness', 'economy', 'population', 'transitScore'];
 
 interface GameUIProps {
     city: CityGraph;
@@ -14,8 +22,45 @@ interface GameUIProps {
     aiInput: string;
     setAiInput: (val: string) => void;
     onGenerate: () => void;
-    isGenerating: boolean;
+    generation: GenerationProgress | null; // null when no request is in flight
+    onCancelGenerate: () => void;
+    getContextSummary: () => string; // What the AI is told about the city; only built while the preview is open
+    generationMode: GenerationMode;
+    onGenerationModeChange: (mode: GenerationMode) => void;
+    repairNotes: string[];
+    onDismissRepairNotes: () => void;
     onResetCamera: () => void;
+    onOpenSaves: () => void;
+    onOpenSettings: () => void;
+    onOpenDashboard: () => void;
+    onOpenAdvisor: () => void;
+    onOpenBudget: () => void;
+    onOpenEvents: () => void;
+    activeEvents: number;
+    scenario: Scenario | undefined; // undefined for cities from before scenarios
+    goals: GoalProgress[];
+    scenarioResult: ScenarioResult | null;
+    onOpenScenarios: () => void;
+    onOpenSummary: () => void;
+    treasury: number;
+    dailyNet: number; // Taxes minus upkeep at today's stats
+    isSimulating: boolean;
+    speed: SimSpeed;
+    fastForward: { done: number; total: number } | null;
+    onTogglePlay: () => void;
+    onStep: () => void;
+    onSpeedChange: (speed: SimSpeed) => void;
+    onFastForward: () => void;
+    roadTool: { tier: RoadTier; startId: string | null } | null; // null when the road tool is off
+    roadNotice: string | null;
+    onToggleRoadTool: () => void;
+    onRoadTierChange: (tier: RoadTier) => void;
+    overlay: OverlayMode;
+    onOverlayChange: (mode: OverlayMode) => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
 }
 
 const GameUI: React.FC<GameUIProps> = ({
@@ -24,10 +69,50 @@ const GameUI: React.FC<GameUIProps> = ({
     aiInput,
     setAiInput,
     onGenerate,
-    isGenerating,
-    onResetCamera
+    generation,
+    onCancelGenerate,
+    getContextSummary,
+    generationMode,
+    onGenerationModeChange,
+    repairNotes,
+    onDismissRepairNotes,
+    onResetCamera,
+    onOpenSaves,
+    onOpenSettings,
+    onOpenDashboard,
+    onOpenAdvisor,
+    onOpenBudget,
+    onOpenEvents,
+    activeEvents,
+    scenario,
+    goals,
+    scenarioResult,
+    onOpenScenarios,
+    onOpenSummary,
+    treasury,
+    dailyNet,
+    isSimulating,
+    speed,
+    fastForward,
+    onTogglePlay,
+    onStep,
+    onSpeedChange,
+    onFastForward,
+    roadTool,
+    roadNotice,
+    onToggleRoadTool,
+    onRoadTierChange,
+    overlay,
+    onOverlayChange,
+    canUndo,
+    canRedo,
+    onUndo,
+    onRedo
 }) => {
+    const [showContext, setShowContext] = useState(false);
+    const isGenerating = !!generation;
     const totalPop = city.districts.reduce((a, b) => a + b.stats.population, 0);
+    const roadStart = roadTool?.startId ? city.districts.find(d => d.id === roadTool.startId) : undefined;
 
     return (
         <>
@@ -41,33 +126,219 @@ const GameUI: React.FC<GameUIProps> = ({
                             <span className="value">{totalPop.toLocaleString()}</span>
                         </span>
                         <span className="divider"></span>
+                        <span className="meta-item" title={`${dailyNet >= 0 ? '+' : ''}${formatMoney(dailyNet)} per day`}>
+                            <span className="label">TREASURY</span>
+                            <span className={`value ${treasury < 0 ? 'negative' : ''}`}>{formatMoney(treasury)}</span>
+                            <span className={`budget-trend ${dailyNet < 0 ? 'negative' : 'positive'}`}>{dailyNet < 0 ? '▼' : '▲'}</span>
+                        </span>
+                        <span className="divider"></span>
                         <span className="meta-item">
                             <span className="label">DAY</span>
                             <span className="value">{tickCount}</span>
                         </span>
+                        <span className="divider"></span>
+                        <span className="meta-item">
+                            <span className="label">SPEED</span>
+                            <span className="value">{fastForward ? 'FF' : isSimulating ? `${speed}x` : 'PAUSED'}</span>
+                        </span>
                     </div>
+                    <div className="sim-controls">
+                        <button onClick={onTogglePlay} disabled={!!fastForward} title={isSimulating ? 'Pause' : 'Play'}>
+                            {isSimulating ? <PauseIcon /> : <PlayIcon />}
+                        </button>
+                        <button onClick={onStep} disabled={!!fastForward} title="Advance one day">
+                            <StepIcon />
+                        </button>
+                        <span className="divider"></span>
+                        {SPEEDS.map(s => (
+                            <button
+                                key={s}
+                                className={`speed-btn ${isSimulating && speed === s ? 'active' : ''}`}
+                                onClick={() => onSpeedChange(s)}
+                                disabled={!!fastForward}
+                            >
+                                {s}x
+                            </button>
+                        ))}
+                        <span className="divider"></span>
+                        <button className={`ff-btn ${fastForward ? 'active' : ''}`} onClick={onFastForward} title={fastForward ? 'Stop fast-forward' : 'Fast-forward 100 days'}>
+                            <FastForwardIcon />
+                            <span>{fastForward ? `${fastForward.done}/${fastForward.total}` : '+100d'}</span>
+                        </button>
+                    </div>
+                    {scenario && (
+                        <div className="scenario-tracker">
+                            <div className="scenario-tracker-header">
+                                <strong>{scenario.name}</strong>
+                                {scenarioResult ? (
+                                    <button className={`scenario-outcome ${scenarioResult.outcome}`} onClick={onOpenSummary}>
+                                        {scenarioResult.outcome === 'won' ? 'Won' : 'Lost'} on day {scenarioResult.tick}
+                                    </button>
+                                ) : scenario.dayLimit !== undefined && (
+                                    <span className="scenario-days">Day {tickCount} / {scenario.dayLimit}</span>
+                                )}
+                            </div>
+                            {goals.length === 0 ? (
+                                <span className="scenario-free">Free play</span>
+                            ) : (
+                                <ul>
+                                    {goals.map(({ goal, value, met }) => (
+                                        <li key={goal.metric} className={met ? 'met' : ''} title={describeGoal(goal)}>
+                                            <span>{met ? '✓' : '○'} {GOAL_LABELS[goal.metric]}</span>
+                                            <span>
+                                                {formatGoalValue(goal.metric, value)} {goal.comparison === 'atLeast' ? '≥' : '≤'} {formatGoalValue(goal.metric, goal.target)}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
                 </div>
                 
-                <button className="icon-btn reset-cam-btn" onClick={onResetCamera} title="Reset Camera">
-                    <UndoIcon />
-                </button>
+                <div className="hud-actions">
+                    <button className="icon-btn reset-cam-btn" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                        <UndoIcon />
+                    </button>
+                    <button className="icon-btn reset-cam-btn" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+                        <RedoIcon />
+                    </button>
+                    <button className={`icon-btn reset-cam-btn ${roadTool ? 'active' : ''}`} onClick={onToggleRoadTool} title="Road Tool">
+                        <RoadIcon />
+                    </button>
+                    <button className={`icon-btn reset-cam-btn ${overlay ? 'active' : ''}`} onClick={() => onOverlayChange(overlay ? null : OVERLAYS[0])} title="Data Overlay">
+                        <LayersIcon />
+                    </button>
+                    <button className="icon-btn reset-cam-btn" onClick={onOpenDashboard} title="City Dashboard">
+                        <ChartIcon />
+                    </button>
+                    <button className="icon-btn reset-cam-btn event-log-btn" onClick={onOpenEvents} title="Event Log">
+                        <BellIcon />
+                        {activeEvents > 0 && <span className="event-badge">{activeEvents}</span>}
+                    </button>
+                    <button className="icon-btn reset-cam-btn" onClick={onOpenBudget} title="Budget">
+                        <CoinIcon />
+                    </button>
+                    <button className="icon-btn reset-cam-btn" onClick={onOpenAdvisor} title="City Advisor">
+                        <AdvisorIcon />
+                    </button>
+                    <button className="icon-btn reset-cam-btn" onClick={onOpenScenarios} title="Scenarios">
+                        <FlagIcon />
+                    </button>
+                    <button className="icon-btn reset-cam-btn" onClick={onOpenSaves} title="Save / Load City">
+                        <SaveIcon />
+                    </button>
+                    <button className="icon-btn reset-cam-btn" onClick={onOpenSettings} title="Settings">
+                        <SettingsIcon />
+                    </button>
+                    <button className="icon-btn reset-cam-btn" onClick={onResetCamera} title="Reset Camera">
+                        <CenterIcon />
+                    </button>
+                </div>
             </div>
 
             {/* Bottom HUD */}
             <div className="ui-overlay bottom-bar">
+                 {repairNotes.length > 0 && (
+                    <div className="repair-notice" title={repairNotes.join('\n')}>
+                        <span>⚠️ AI output needed {repairNotes.length} fix{repairNotes.length === 1 ? '' : 'es'}</span>
+                        <button onClick={onDismissRepairNotes}>&times;</button>
+                    </div>
+                 )}
+                 {roadTool && (
+                    <div className="road-toolbar">
+                        <div className="tier-picker">
+                            {(Object.keys(ROAD_TIERS) as RoadTier[]).map(t => (
+                                <button key={t} className={t === roadTool.tier ? 'active' : ''} onClick={() => onRoadTierChange(t)}>
+                                    {ROAD_TIERS[t].label}
+                                </button>
+                            ))}
+                        </div>
+                        <span className="road-hint">
+                            {roadNotice ?? (roadStart ? `From ${roadStart.name}: pick a district to connect` : 'Pick a district to start a road, or click a road to edit it')}
+                        </span>
+                        <button className="road-done" onClick={onToggleRoadTool}>Done</button>
+                    </div>
+                 )}
+                 {overlay && (
+                    <div className="overlay-toolbar">
+                        <div className="tier-picker">
+                            {OVERLAYS.map(m => (
+                                <button key={m} className={m === overlay ? 'active' : ''} onClick={() => onOverlayChange(m)}>
+                                    {STAT_LABELS[m]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="overlay-legend">
+                            <div className="legend-row">
+                                <span>0</span>
+                                <span className="legend-bar" style={{ background: cssGradient(OVERLAY_GRADIENTS[overlay]) }} />
+                                <span>{overlayMax(overlay).toLocaleString('en-US')}</span>
+                            </div>
+                            <div className="legend-row">
+                                <span>Roads</span>
+                                <span className="legend-bar" style={{ background: cssGradient(ROAD_LOAD_GRADIENT) }} />
+                                <span>Jammed</span>
+                            </div>
+                            <small>Wider roads carry more traffic</small>
+                        </div>
+                        <button className="road-done" onClick={() => onOverlayChange(null)}>Done</button>
+                    </div>
+                 )}
+                 {generation && (
+                    <div className="generation-status">
+                        <ThinkingIcon />
+                        <span>{generation.mode === 'cluster' ? `Growing cluster · ${generation.built} built` : 'Drafting district'}</span>
+                        {generation.name && <strong>{generation.name}</strong>}
+                        {generation.type && <span className="type-badge">{generation.type}</span>}
+                    </div>
+                 )}
+                 {showContext && (
+                    <div className="context-preview">
+                        <div className="context-preview-header">
+                            <span>City context sent with your request</span>
+                            <button onClick={() => setShowContext(false)}>&times;</button>
+                        </div>
+                        <pre>{getContextSummary()}</pre>
+                    </div>
+                 )}
                  <div className="generator-input">
+                    <button
+                        className="mode-toggle"
+                        onClick={() => onGenerationModeChange(generationMode === 'single' ? 'cluster' : 'single')}
+                        disabled={isGenerating}
+                        title={generationMode === 'single' ? 'Building one district. Switch to growing a cluster' : 'Growing a cluster. Switch to one district'}
+                    >
+                        {generationMode === 'single' ? '1×' : 'Grow'}
+                    </button>
                     <input 
                         type="text" 
-                        placeholder="Describe a new district (e.g. 'Cyberpunk slums')" 
+                        placeholder={generationMode === 'single'
+                            ? "Describe a new district (e.g. 'Cyberpunk slums')"
+                            : "Describe a cluster (e.g. 'A waterfront arts quarter of 5 districts')"}
                         value={aiInput}
                         onChange={(e) => setAiInput(e.target.value)}
                         onKeyDown={(e) => e.key === 'Enter' && onGenerate()}
                         disabled={isGenerating}
                     />
-                    <button onClick={onGenerate} disabled={isGenerating || !aiInput}>
-                        {isGenerating ? <ThinkingIcon /> : <SparklesIcon />}
-                        <span>Build</span>
+                    <button
+                        className={`context-toggle ${showContext ? 'active' : ''}`}
+                        onClick={() => setShowContext(s => !s)}
+                        title="Preview the city context sent to the AI"
+                    >
+                        <CodeIcon />
                     </button>
+                    {isGenerating ? (
+                        <button className="cancel-btn" onClick={onCancelGenerate} title="Cancel (Esc)">
+                            <CloseIcon />
+                            <span>Cancel</span>
+                        </button>
+                    ) : (
+                        <button onClick={onGenerate} disabled={!aiInput}>
+                            <SparklesIcon />
+                            <span>Build</span>
+                        </button>
+                    )}
                  </div>
             </div>
         </>
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo } from 'react';
+import { LinkFlow } from '../utils/simulation';
+import { createRng, hashSeed, Rng } from '../utils/rng';
+
+type Point = { x: number; y: number };
+
+interface RoadTrafficProps {
+    from: Point;
+    to: Point;
+    there: LinkFlow; // Traffic heading from `from` to `to`
+    back: LinkFlow;
+    laneOffset: number; // Distance of each lane from the centre line
+    walkers: number;
+    seed: string;
+    animate: boolean; // Off draws the same vehicles standing still
+}
+
+const TRAFFIC_PER_VEHICLE = 1.5;
+const MAX_VEHICLES_PER_LANE = 12;
+const VEHICLE_SPEED = 45; // SVG units per second on a free road
+const WALKING_SPEED = 8;
+const MIN_JAM_SPEED = 0.15; // Share of free speed left in the worst jam
+const VEHICLE_COLORS = ['#f8fafc', '#ef4444', '#3b82f6', '#facc15', '#1f2937', '#22c55e'];
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Rounded so a small change in flow doesn't restart every animation on each tick
+const quantize = (seconds: number) => Math.max(1, Math.round(seconds * 2) / 2);
+
+interface Mover {
+    key: string;
+    start: Point;
+    end: Point;
+    phase: number; // 0-1 along the path
+    duration: number;
+    color: string;
+    braking: boolean; // Stuck in a jam
+}
+
+/** Shifts the segment sideways; positive is to the right of travel. */
+const offsetSegment = (a: Point, b: Point, offset: number): [Point, Point] => {
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const nx = -(b.y - a.y) / length * offset;
+    const ny = (b.x - a.x) / length * offset;
+    return [{ x: a.x + nx, y: a.y + ny }, { x: b.x + nx, y: b.y + ny }];
+};
+
+const laneMovers = (lane: string, a: Point, b: Point, flow: LinkFlow, offset: number, rng: Rng): Mover[] => {
+    const count = Math.min(MAX_VEHICLES_PER_LANE, Math.round(flow.demand / TRAFFIC_PER_VEHICLE));
+    const [start, end] = offsetSegment(a, b, offset);
+    const speed = VEHICLE_SPEED * (flow.demand > 0 ? Math.max(MIN_JAM_SPEED, flow.carried / flow.demand) : 1);
+    const duration = quantize(Math.hypot(end.x - start.x, end.y - start.y) / speed);
+    return Array.from({ length: count }, (_, i) => ({
+        key: `${lane}-${i}`,
+        start,
+        end,
+        phase: (i + rng.next() * 0.5) / count,
+        duration,
+        color: rng.pick(VEHICLE_COLORS),
+        braking: flow.overflow > 0
+    }));
+};
+
+/** Vehicles driving on the right in both directions, with pedestrians on the pavements. */
+const RoadTraffic: React.FC<RoadTrafficProps> = ({ from, to, there, back, laneOffset, walkers, seed, animate }) => {
+    const { vehicles, pedestrians, jams } = useMemo(() => {
+        const rng = createRng(hashSeed(seed));
+        const vehicles = [
+            ...laneMovers('there', from, to, there, laneOffset, rng),
+            ...laneMovers('back', to, from, back, laneOffset, rng)
+        ];
+        const pavement = laneOffset * 2 + 2;
+        const pedestrians: Mover[] = Array.from({ length: walkers }, (_, i) => {
+            const [a, b] = i % 2 ? [to, from] : [from, to];
+            const [start, end] = offsetSegment(a, b, pavement);
+            return {
+                key: `walker-${i}`,
+                start,
+                end,
+                phase: rng.next(),
+                duration: quantize(Math.hypot(end.x - start.x, end.y - start.y) / (WALKING_SPEED * (0.8 + rng.next() * 0.4))),
+                color: '#27272a',
+                braking: false
+            };
+        });
+        const jams = [offsetSegment(from, to, laneOffset), offsetSegment(to, from, laneOffset)].filter((_, i) => [there, back][i].overflow > 0);
+        return { vehicles, pedestrians, jams };
+    }, [from.x, from.y, to.x, to.y, there.demand, there.carried, there.overflow, back.demand, back.carried, back.overflow, laneOffset, walkers, seed]);
+
+    const renderMover = (m: Mover, shape: React.ReactNode) => {
+        if (!animate) {
+            const at = lerp(m.start, m.end, m.phase);
+            const angle = Math.atan2(m.end.y - m.start.y, m.end.x - m.start.x) * 180 / Math.PI;
+            return <g key={m.key} transform={`translate(${at.x}, ${at.y}) rotate(${angle})`}>{shape}</g>;
+        }
+        return (
+            <g key={m.key}>
+                {shape}
+                <animateMotion
+                    path={`M${m.start.x},${m.start.y} L${m.end.x},${m.end.y}`}
+                    dur={`${m.duration}s`}
+                    begin={`${-m.phase * m.duration}s`}
+                    repeatCount="indefinite"
+                    rotate="auto"
+                />
+            </g>
+        );
+    };
+
+    return (
+        <g className={`road-traffic ${animate ? 'animated' : ''}`}>
+            {jams.map(([start, end], i) => (
+                <line key={i} x1={start.x} y1={start.y} x2={end.x} y2={end.y} className="road-jam" strokeWidth={laneOffset * 2} />
+            ))}
+            {vehicles.map(v => renderMover(v, (
+                <rect x={-4} y={-1.75} width={8} height={3.5} rx={1} fill={v.color} className={v.braking ? 'vehicle braking' : 'vehicle'} />
+            )))}
+            {pedestrians.map(p => renderMover(p, <circle r={1.2} fill={p.color} className="pedestrian" />))}
+        </g>
+    );
+};
+
+export default RoadTraffic;
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Scenario } from '../types';
+import { formatMoney } from '../utils/budget';
+import { bannedTypes, describeGoal, SCENARIOS } from '../utils/scenarios';
+
+interface ScenarioPickerProps {
+    isOpen: boolean;
+    currentId: string | null;
+    onStart: (scenario: Scenario) => void;
+    onClose: () => void;
+}
+
+const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ isOpen, currentId, onStart, onClose }) => {
+    if (!isOpen) return null;
+
+    return (
+        <div className="confirmation-modal-overlay">
+            <div className="confirmation-modal scenario-picker">
+                <h3>Choose a Scenario</h3>
+                <p>Starting a scenario replaces the current city. Save it first if you want to keep it.</p>
+                <ul className="scenario-list">
+                    {SCENARIOS.map(s => {
+                        const banned = bannedTypes(s);
+                        return (
+                            <li key={s.id} className={s.id === currentId ? 'current' : ''}>
+                                <div className="scenario-info">
+                                    <strong>{s.name}</strong>
+                                    <p>{s.description}</p>
+                                    <div className="scenario-terms">
+                                        <span>{formatMoney(s.budget)} budget</span>
+                                        <span>{s.dayLimit !== undefined ? `${s.dayLimit} days` : 'No deadline'}</span>
+                                        {banned.length > 0 && <span>No {banned.join(', ')}</span>}
+                                    </div>
+                                    {s.goals.length > 0 && (
+                                        <ul className="scenario-goals">
+                                            {s.goals.map(g => <li key={g.metric}>{describeGoal(g)}</li>)}
+                                        </ul>
+                                    )}
+                                </div>
+                                <button onClick={() => onStart(s)}>Start</button>
+                            </li>
+                        );
+                    })}
+                </ul>
+                <div className="confirmation-actions">
+                    <button className="confirm-cancel" onClick={onClose}>Cancel</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ScenarioPicker;
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { CityGraph, GoalProgress, Scenario, ScenarioResult } from '../types';
+import { formatMoney } from '../utils/budget';
+import { aggregateCityStats } from '../utils/statHistory';
+import { formatGoalValue, GOAL_LABELS } from '../utils/scenarios';
+
+interface ScenarioSummaryProps {
+    isOpen: boolean;
+    scenario: Scenario;
+    result: ScenarioResult;
+    city: CityGraph;
+    treasury: number;
+    goals: GoalProgress[];
+    eventCount: number;
+    onKeepPlaying: () => void;
+    onNewScenario: () => void;
+}
+
+/** End-of-scenario screen; the city stays playable afterwards as free play. */
+const ScenarioSummary: React.FC<ScenarioSummaryProps> = ({ isOpen, scenario, result, city, treasury, goals, eventCount, onKeepPlaying, onNewScenario }) => {
+    if (!isOpen) return null;
+
+    const totals = aggregateCityStats(city);
+    const won = result.outcome === 'won';
+
+    return (
+        <div className="confirmation-modal-overlay">
+            <div className={`confirmation-modal scenario-summary ${result.outcome}`}>
+                <h3>{won ? `${scenario.name} complete!` : `${scenario.name} failed`}</h3>
+                <p>
+                    {won
+                        ? `Every goal was met on day ${result.tick}${scenario.dayLimit !== undefined ? `, ${scenario.dayLimit - result.tick} days ahead of the deadline` : ''}.`
+                        : `Day ${scenario.dayLimit} came with goals still unmet.`}
+                </p>
+                <div className="scenario-stats">
+                    <span><label>Residents</label>{Math.round(totals.population).toLocaleString('en-US')}</span>
+                    <span><label>Districts</label>{city.districts.length}</span>
+                    <span><label>Happiness</label>{Math.round(totals.happiness)}</span>
+                    <span><label>Treasury</label>{formatMoney(treasury)}</span>
+                    <span><label>Events</label>{eventCount}</span>
+                </div>
+                <table className="scenario-goal-table">
+                    <tbody>
+                        {goals.map(({ goal, value, met }) => (
+                            <tr key={goal.metric} className={met ? 'met' : 'missed'}>
+                                <td>{met ? '✓' : '✗'} {GOAL_LABELS[goal.metric]}</td>
+                                <td>{formatGoalValue(goal.metric, value)}</td>
+                                <td>{goal.comparison === 'atLeast' ? '≥' : '≤'} {formatGoalValue(goal.metric, goal.target)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="confirmation-actions">
+                    <button className="confirm-cancel" onClick={onKeepPlaying}>Keep playing</button>
+                    <button className="confirm-primary" onClick={onNewScenario}>New scenario</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ScenarioSummary;
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { AdvisorReport, DistrictStats, Recommendation } from '../../types';
+import { STAT_KEYS, STAT_LABELS } from '../../utils/statHistory';
+import { FORECAST_DAYS } from '../../utils/advisor';
+import { ThinkingIcon, SparklesIcon } from '../Icons';
+
+interface AdvisorPanelProps {
+    report: AdvisorReport | null;
+    isAdvising: boolean;
+    error: string | null;
+    tickCount: number;
+    onAsk: () => void;
+    onApply: (index: number) => void;
+}
+
+// Stats where going down is the good direction
+const LOWER_IS_BETTER: (keyof DistrictStats)[] = ['pollution', 'trafficFlow'];
+
+const MIN_SHOWN_CHANGE = 0.5;
+
+export const ImpactChips: React.FC<{ impact: DistrictStats }> = ({ impact }) => {
+    const changes = STAT_KEYS.filter(k => Math.abs(impact[k]) >= MIN_SHOWN_CHANGE);
+    if (changes.length === 0) return <p className="impact-none">No noticeable change forecast.</p>;
+    return (
+        <div className="impact-chips">
+            {changes.map(k => {
+                const good = (impact[k] > 0) !== LOWER_IS_BETTER.includes(k);
+                const value = k === 'population' ? Math.round(impact[k]).toString() : impact[k].toFixed(1);
+                return (
+                    <span key={k} className={`impact-chip ${good ? 'good' : 'bad'}`}>
+                        {STAT_LABELS[k]} {impact[k] > 0 ? '+' : ''}{value}
+                    </span>
+                );
+            })}
+        </div>
+    );
+};
+
+const RecommendationCard: React.FC<{ rec: Recommendation; onApply: () => void }> = ({ rec, onApply }) => (
+    <li className={`advice-card ${rec.applied ? 'applied' : ''}`}>
+        <strong>{rec.title}</strong>
+        {rec.reason && <p>{rec.reason}</p>}
+        <ImpactChips impact={rec.impact} />
+        <button onClick={onApply} disabled={rec.applied}>
+            {rec.applied ? 'Applied' : 'Apply'}
+        </button>
+    </li>
+);
+
+const AdvisorPanel: React.FC<AdvisorPanelProps> = ({ report, isAdvising, error, tickCount, onAsk, onApply }) => (
+    <div className="advisor-panel">
+        <p className="setting-hint">
+            The advisor reviews every district, road and recent trend, then suggests fixes you can apply in one click.
+            Each forecast compares {FORECAST_DAYS} simulated days with and without the change.
+        </p>
+        <button className="advisor-ask" onClick={onAsk} disabled={isAdvising}>
+            {isAdvising ? <ThinkingIcon /> : <SparklesIcon />}
+            <span>{isAdvising ? 'Reviewing the city…' : report ? 'Ask again' : 'Ask the advisor'}</span>
+        </button>
+
+        {error && <p className="import-errors">{error}</p>}
+
+        {report && (
+            <>
+                <p className="advice-summary">{report.summary}</p>
+                {tickCount !== report.tick && (
+                    <p className="setting-hint">Advice from day {report.tick}; the city has changed since, so forecasts may be off.</p>
+                )}
+                {report.recommendations.length === 0 && <p className="setting-hint">No changes recommended.</p>}
+                <ul className="advice-list">
+                    {report.recommendations.map((rec, i) => (
+                        <RecommendationCard key={i} rec={rec} onApply={() => onApply(i)} />
+                    ))}
+                </ul>
+                {report.skipped.length > 0 && (
+                    <details className="advice-skipped">
+                        <summary>{report.skipped.length} suggestion{report.skipped.length === 1 ? '' : 's'} couldn't be applied</summary>
+                        <ul>{report.skipped.map((s, i) => <li key={i}>{s}</li>)}</ul>
+                    </details>
+                )}
+            </>
+        )}
+    </div>
+);
+
+export default AdvisorPanel;
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { CityGraph, DailyBudget } from '../../types';
+import { DISTRICT_TYPES } from '../../constants';
+import { DISTRICT_UPKEEP, formatMoney, ROAD_UPKEEP_PER_CAPACITY, TAX_PER_RESIDENT } from '../../utils/budget';
+
+interface BudgetPanelProps {
+    city: CityGraph;
+    treasury: number;
+    budget: DailyBudget;
+}
+
+const typeLabel = (type: string) => type[0].toUpperCase() + type.slice(1);
+
+const BudgetRow: React.FC<{ label: string; amount: number; note?: string }> = ({ label, amount, note }) => (
+    <tr>
+        <td>{label}{note && <span className="budget-note">{note}</span>}</td>
+        <td className={amount < 0 ? 'negative' : ''}>{formatMoney(amount)}</td>
+    </tr>
+);
+
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ city, treasury, budget }) => {
+    const countOf = (type: string) => city.districts.filter(d => d.type === type).length;
+    const taxed = DISTRICT_TYPES.filter(t => budget.taxes[t] > 0);
+    const upkept = DISTRICT_TYPES.filter(t => countOf(t) > 0);
+    const daysLeft = budget.net < 0 && treasury > 0 ? Math.floor(treasury / -budget.net) : null;
+
+    return (
+        <div className="budget-panel">
+            <div className="budget-summary">
+                <div>
+                    <span className="label">Treasury</span>
+                    <strong className={treasury < 0 ? 'negative' : ''}>{formatMoney(treasury)}</strong>
+                </div>
+                <div>
+                    <span className="label">Per day</span>
+                    <strong className={budget.net < 0 ? 'negative' : 'positive'}>{budget.net >= 0 ? '+' : ''}{formatMoney(budget.net)}</strong>
+                </div>
+            </div>
+            {treasury < 0 && <p className="import-errors">The city is in debt. No new districts can be built until the treasury recovers.</p>}
+            {daysLeft !== null && <p className="setting-hint">At this rate the money runs out in {daysLeft} day{daysLeft === 1 ? '' : 's'}.</p>}
+
+            <section>
+                <h3>Income</h3>
+                <table className="budget-table">
+                    <tbody>
+                        {taxed.map(t => <BudgetRow key={t} label={`${typeLabel(t)} taxes`} amount={budget.taxes[t]} />)}
+                        {taxed.length === 0 && <BudgetRow label="Taxes" amount={0} />}
+                    </tbody>
+                    <tfoot><BudgetRow label="Total" amount={budget.income} /></tfoot>
+                </table>
+                <p className="setting-hint">
+                    Each resident pays up to {formatMoney(TAX_PER_RESIDENT * 100)} per 100 days, scaled by their district's economy.
+                </p>
+            </section>
+
+            <section>
+                <h3>Expenses</h3>
+                <table className="budget-table">
+                    <tbody>
+                        {upkept.map(t => (
+                            <BudgetRow key={t} label={`${typeLabel(t)} upkeep`} note={`${countOf(t)} × ${formatMoney(DISTRICT_UPKEEP[t])}`} amount={-budget.upkeep[t]} />
+                        ))}
+                        <BudgetRow label="Road upkeep" note={`${city.edges.length} road${city.edges.length === 1 ? '' : 's'}`} amount={-budget.roads} />
+                    </tbody>
+                    <tfoot><BudgetRow label="Total" amount={-budget.expenses} /></tfoot>
+                </table>
+                <p className="setting-hint">
+                    Roads cost {formatMoney(ROAD_UPKEEP_PER_CAPACITY * 10)} a day per 10 units of capacity, so upgrading to a highway adds upkeep.
+                    New districts are paid for up front, priced by their buildings.
+                </p>
+            </section>
+        </div>
+    );
+};
+
+export default BudgetPanel;
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { AiProviderId, AiSettings, DisplaySettings, SimulationRules } from '../../types';
+import { AI_PROVIDER_LABELS, GEMINI_MODELS, MOCK_MODEL, hasGeminiKey } from '../../utils/aiProvider';
+import RulesPanel from './RulesPanel';
+
+interface CitySettingsPanelProps {
+    aiSettings: AiSettings;
+    onAiSettingsChange: (settings: AiSettings) => void;
+    displaySettings: DisplaySettings;
+    onDisplaySettingsChange: (settings: DisplaySettings) => void;
+    rules: SimulationRules;
+    onRulesChange: (rules: SimulationRules) => void;
+}
+
+const DEFAULT_MODELS: Record<AiProviderId, string> = {
+    gemini: GEMINI_MODELS[0],
+    mock: MOCK_MODEL
+};
+
+const CitySettingsPanel: React.FC<CitySettingsPanelProps> = ({ aiSettings, onAiSettingsChange, displaySettings, onDisplaySettingsChange, rules, onRulesChange }) => {
+    return (
+        <div className="settings-panel">
+            <div className="setting-group">
+                <label>AI Provider</label>
+                <select
+                    value={aiSettings.provider}
+                    onChange={(e) => {
+                        const provider = e.target.value as AiProviderId;
+                        onAiSettingsChange({ provider, model: DEFAULT_MODELS[provider] });
+                    }}
+                >
+                    {(Object.keys(AI_PROVIDER_LABELS) as AiProviderId[]).map(id => (
+                        <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>
+                    ))}
+                </select>
+                {aiSettings.provider === 'gemini' && !hasGeminiKey() && (
+                    <p className="setting-hint warning">No GEMINI_API_KEY configured. Builds will fail until one is set.</p>
+                )}
+                {aiSettings.provider === 'mock' && (
+                    <p className="setting-hint">Generates districts locally from keywords in your request. No network needed.</p>
+                )}
+            </div>
+            <div className="setting-group">
+                <label>Model</label>
+                <input
+                    type="text"
+                    list="ai-model-options"
+                    value={aiSettings.model}
+                    disabled={aiSettings.provider === 'mock'}
+                    onChange={(e) => onAiSettingsChange({ ...aiSettings, model: e.target.value })}
+                />
+                <datalist id="ai-model-options">
+                    {GEMINI_MODELS.map(m => <option key={m} value={m} />)}
+                </datalist>
+            </div>
+            <div className="setting-group">
+                <label className="setting-toggle">
+                    <input
+                        type="checkbox"
+                        checked={displaySettings.animateTraffic}
+                        onChange={(e) => onDisplaySettingsChange({ ...displaySettings, animateTraffic: e.target.checked })}
+                    />
+                    Animate traffic
+                </label>
+                <p className="setting-hint">Turn off on slower machines. Vehicles still show how busy each road is, standing still.</p>
+            </div>
+            <h3 className="settings-heading">Simulation Rules</h3>
+            <p className="setting-hint">Saved with this city. Changes apply from the next day and are recorded in the replay log.</p>
+            <RulesPanel rules={rules} onApply={onRulesChange} />
+        </div>
+    );
+};
+
+export default CitySettingsPanel;
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { CityGraph, DistrictStats, StatHistory, StatSample } from '../../types';
+import { STAT_COLORS, STAT_KEYS, STAT_LABELS, seriesOf } from '../../utils/statHistory';
+import { LineChart } from '../Charts';
+
+interface DashboardPanelProps {
+    city: CityGraph;
+    history: StatHistory;
+}
+
+const COMPARE_COLORS = ['#3b82f6', '#f97316'];
+
+const domainFor = (key: keyof DistrictStats): [number, number] | undefined => key === 'population' ? undefined : [0, 100];
+
+const DashboardPanel: React.FC<DashboardPanelProps> = ({ city, history }) => {
+    const [compareKey, setCompareKey] = useState<keyof DistrictStats>('happiness');
+    const [compareIds, setCompareIds] = useState<[string, string]>([
+        city.districts[0]?.id ?? '',
+        city.districts[1]?.id ?? ''
+    ]);
+
+    const cityTicks = history.city.map(s => s.tick);
+    const compared = compareIds
+        .map((id, i) => ({ district: city.districts.find(d => d.id === id), color: COMPARE_COLORS[i] }))
+        .filter(c => c.district);
+    const compareSamples = compared.map(c => history.districts[c.district!.id] ?? []);
+    const compareTicks = compareSamples.reduce<StatSample[]>((longest, s) => s.length > longest.length ? s : longest, []).map(s => s.tick);
+
+    return (
+        <div className="dashboard-panel">
+            <section>
+                <h3>City Trends</h3>
+                {STAT_KEYS.map(key => (
+                    <div key={key} className="dashboard-chart">
+                        <label>{STAT_LABELS[key]}{key === 'population' ? ' (total)' : ' (avg)'}</label>
+                        <LineChart
+                            series={[{ label: STAT_LABELS[key], color: STAT_COLORS[key], values: seriesOf(history.city, key) }]}
+                            ticks={cityTicks}
+                            height={48}
+                            domain={domainFor(key)}
+                        />
+                    </div>
+                ))}
+            </section>
+
+            <section>
+                <h3>Compare Districts</h3>
+                <div className="compare-controls">
+                    {compareIds.map((id, i) => (
+                        <select
+                            key={i}
+                            value={id}
+                            style={{ borderColor: COMPARE_COLORS[i] }}
+                            onChange={(e) => {
+                                const next = [...compareIds] as [string, string];
+                                next[i] = e.target.value;
+                                setCompareIds(next);
+                            }}
+                        >
+                            <option value="">—</option>
+                            {city.districts.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                        </select>
+                    ))}
+                    <select value={compareKey} onChange={(e) => setCompareKey(e.target.value as keyof DistrictStats)}>
+                        {STAT_KEYS.map(key => <option key={key} value={key}>{STAT_LABELS[key]}</option>)}
+                    </select>
+                </div>
+                <LineChart
+                    series={compared.map((c, i) => ({
+                        label: c.district!.name,
+                        color: c.color,
+                        values: seriesOf(compareSamples[i], compareKey)
+                    }))}
+                    ticks={compareTicks}
+                    height={100}
+                    domain={domainFor(compareKey)}
+                />
+            </section>
+        </div>
+    );
+};
+
+export default DashboardPanel;
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { BuildingType, District, DistrictEdit, DistrictType } from '../../types';
+import { BUILDING_TYPES, DISTRICT_TYPES } from '../../constants';
+import { DEFAULT_COLORS, MAX_BUILDING_COUNT } from '../../utils/districtSchema';
+import { editCost, formatMoney } from '../../utils/budget';
+import { TrashIcon } from '../Icons';
+
+// <input type="color"> only accepts #rrggbb
+const toColorInput = (color: string) => /^#[0-9a-f]{3}$/i.test(color) ? `#${color.slice(1).split('').map(c => c + c).join('')}` : color;
+
+interface DistrictEditorProps {
+    district: District;
+    onSave: (edit: DistrictEdit) => void;
+    onCancel: () => void;
+    allowedTypes?: DistrictType[];
+    treasury: number;
+}
+
+/** Form for the hand-editable parts of a district. Works on a draft until Save. */
+const DistrictEditor: React.FC<DistrictEditorProps> = ({ district, onSave, onCancel, allowedTypes, treasury }) => {
+    const [draft, setDraft] = useState<DistrictEdit>({
+        name: district.name,
+        description: district.description,
+        type: district.type,
+        visuals: district.visuals
+    });
+    const { buildings } = draft.visuals;
+    // A district keeps its current type even if the scenario has since banned it
+    const typeOptions = DISTRICT_TYPES.filter(t => !allowedTypes || allowedTypes.includes(t) || t === district.type);
+
+    const setVisuals = (visuals: Partial<DistrictEdit['visuals']>) => setDraft(d => ({ ...d, visuals: { ...d.visuals, ...visuals } }));
+
+    const setBuilding = (index: number, changes: Partial<DistrictEdit['visuals']['buildings'][number]>) =>
+        setVisuals({ buildings: buildings.map((b, i) => i === index ? { ...b, ...changes } : b) });
+
+    const addBuilding = () => setVisuals({ buildings: [...buildings, { type: 'house', count: 1, color: DEFAULT_COLORS.house }] });
+
+    const cost = editCost(district, draft);
+    const affordable = cost <= treasury;
+    const canSave = draft.name.trim().length > 0 && affordable;
+
+    return (
+        <div className="district-editor">
+            <div className="setting-group">
+                <label>Name</label>
+                <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div className="setting-group">
+                <label>Description</label>
+                <textarea rows={2} value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+            </div>
+            <div className="setting-group">
+                <label>Type</label>
+                <select value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value as DistrictType })}>
+                    {typeOptions.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+            </div>
+            <div className="setting-group">
+                <label>Greenery · {Math.round(draft.visuals.greenery * 100)}%</label>
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={draft.visuals.greenery}
+                    onChange={(e) => setVisuals({ greenery: parseFloat(e.target.value) })}
+                />
+                <label className="checkbox-row">
+                    <input type="checkbox" checked={draft.visuals.water} onChange={(e) => setVisuals({ water: e.target.checked })} />
+                    Waterfront
+                </label>
+            </div>
+            <div className="setting-group">
+                <label>Buildings</label>
+                {buildings.map((b, i) => (
+                    <div key={i} className="building-row">
+                        <select value={b.type} onChange={(e) => setBuilding(i, { type: e.target.value as BuildingType })}>
+                            {BUILDING_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_BUILDING_COUNT}
+                            value={b.count}
+                            onChange={(e) => {
+                                const count = parseInt(e.target.value, 10);
+                                if (Number.isFinite(count)) setBuilding(i, { count: Math.max(1, Math.min(MAX_BUILDING_COUNT, count)) });
+                            }}
+                        />
+                        <input type="color" value={toColorInput(b.color)} onChange={(e) => setBuilding(i, { color: e.target.value })} />
+                        <button onClick={() => setVisuals({ buildings: buildings.filter((_, j) => j !== i) })} title="Remove building">
+                            <TrashIcon />
+                        </button>
+                    </div>
+                ))}
+                <button className="add-building" onClick={addBuilding}>+ Add building</button>
+            </div>
+            {cost > 0 && (
+                <p className={affordable ? 'setting-hint' : 'import-errors'}>
+                    {`These changes cost ${formatMoney(cost)}${affordable ? '' : `, but the treasury only has ${formatMoney(treasury)}`}.`}
+                </p>
+            )}
+            <div className="form-actions">
+                <button onClick={onCancel}>Cancel</button>
+                <button
+                    className="primary"
+                    disabled={!canSave}
+                    onClick={() => onSave({ ...draft, name: draft.name.trim(), description: draft.description.trim() })}
+                >
+                    Save changes
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default DistrictEditor;
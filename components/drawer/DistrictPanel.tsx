@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { CityGraph, District, DistrictEdit, DistrictType, StatSample } from '../../types';
+import { seriesOf } from '../../utils/statHistory';
+import { describeDistrictFlows, describePopulation } from '../../utils/simulation';
+import { Sparkline } from '../Charts';
+import { TrashIcon } from '../Icons';
+import DistrictEditor from './DistrictEditor';
+
+interface DistrictPanelProps {
+    city: CityGraph;
+    district: District;
+    history: StatSample[] | undefined;
+    onEdit: (edit: DistrictEdit) => void;
+    onDemolish: () => void;
+    allowedTypes?: DistrictType[]; // Scenario restriction; every type when unset
+    treasury: number;
+}
+
+// Simple internal component for the drawer stats
+const StatBar = ({ label, value, color, icon, trend }: { label: string, value: number, color: string, icon: string, trend: number[] }) => (
+    <div className="stat-row">
+        <span className="stat-icon">{icon}</span>
+        <label>{label}</label>
+        <div className="bar-container">
+            <div className="bar-fill" style={{ width: `${value}%`, backgroundColor: color }}></div>
+        </div>
+        <Sparkline values={trend} color={color} domain={[0, 100]} />
+        <span className="stat-value">{Math.round(value)}</span>
+    </div>
+);
+
+const DistrictPanel: React.FC<DistrictPanelProps> = ({ city, district, history, onEdit, onDemolish, allowedTypes, treasury }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const flows = describeDistrictFlows(city, district);
+    const residents = describePopulation(city, district);
+    const moves = residents.moves.filter(m => m.inbound !== 0);
+
+    if (isEditing) {
+        return (
+            <DistrictEditor
+                district={district}
+                allowedTypes={allowedTypes}
+                treasury={treasury}
+                onSave={(edit) => {
+                    onEdit(edit);
+                    setIsEditing(false);
+                }}
+                onCancel={() => setIsEditing(false)}
+            />
+        );
+    }
+
+    return (
+        <div className="district-detail">
+            <div className={`badge type ${district.type}`}>{district.type.toUpperCase()}</div>
+            <p className="desc">{district.description}</p>
+            
+            <div className="stat-grid">
+                <StatBar label="Happiness" value={district.stats.happiness} color="#fbbf24" icon="😊" trend={seriesOf(history, 'happiness')} />
+                <StatBar label="Pollution" value={district.stats.pollution} color="#71717a" icon="☁️" trend={seriesOf(history, 'pollution')} />
+                <StatBar label="Traffic" value={district.stats.trafficFlow} color="#ef4444" icon="🚗" trend={seriesOf(history, 'trafficFlow')} />
+                <StatBar label="Economy" value={district.stats.economy} color="#10b981" icon="💰" trend={seriesOf(history, 'economy')} />
+                <StatBar label="Transit" value={district.stats.transitScore} color="#0ea5e9" icon="🚆" trend={seriesOf(history, 'transitScore')} />
+            </div>
+
+            <div className="flow-section">
+                <h4>Residents</h4>
+                <div className="stat-row">
+                    <span className="stat-icon">🏠</span>
+                    <label>Housing</label>
+                    <div className="bar-container" title={`${Math.round(residents.attractiveness)} attractiveness`}>
+                        <div
+                            className="bar-fill"
+                            style={{
+                                width: `${residents.capacity ? Math.min(100, (district.stats.population / residents.capacity) * 100) : 100}%`,
+                                backgroundColor: district.stats.population > residents.capacity ? '#ef4444' : '#8b5cf6'
+                            }}
+                        ></div>
+                    </div>
+                    <span className="stat-value housing-value">{district.stats.population.toLocaleString()}/{residents.capacity.toLocaleString()}</span>
+                </div>
+                <p className="flow-summary">
+                    {residents.natural > 0 && `${residents.natural} new resident${residents.natural === 1 ? '' : 's'} a day. `}
+                    {residents.natural < 0 && `${-residents.natural} resident${residents.natural === -1 ? '' : 's'} leaving the city a day. `}
+                    {residents.capacity === 0 && 'No housing here. '}
+                    {moves.length === 0 && 'Nobody is moving in or out along the roads.'}
+                </p>
+                {moves.length > 0 && (
+                    <ul className="flow-list">
+                        {moves.map(({ neighbor, inbound }) => (
+                            <li key={neighbor.id}>
+                                <span className="flow-name">{neighbor.name}</span>
+                                <span className={`migration-value ${inbound < 0 ? 'leaving' : ''}`}>{inbound > 0 ? `+${inbound} moving in` : `${-inbound} moving out`}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="flow-section">
+                <h4>Roads &amp; Transit</h4>
+                <p className="flow-summary">
+                    Transit keeps {Math.round(flows.diverted * 100)}% of local trips off the roads.
+                    {flows.congestion > 0.05 && <span className="flow-jam"> {flows.congestion.toFixed(1)} units of traffic backed up.</span>}
+                </p>
+                {flows.links.length === 0 ? (
+                    <p className="flow-summary">Not connected to any other district.</p>
+                ) : (
+                    <ul className="flow-list">
+                        {flows.links.map(({ neighbor, capacity, inbound }) => (
+                            <li key={neighbor.id} className={inbound.overflow > 0 ? 'jammed' : ''}>
+                                <span className="flow-name">{neighbor.name}</span>
+                                <div className="bar-container" title={`${inbound.demand.toFixed(1)} demand / ${capacity} capacity`}>
+                                    <div className="bar-fill" style={{ width: `${Math.min(100, (inbound.demand / capacity) * 100)}%` }}></div>
+                                </div>
+                                <span className="flow-value">{inbound.carried.toFixed(1)}/{capacity}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="district-actions">
+                <button onClick={() => setIsEditing(true)}>Edit district</button>
+                <button className="danger-btn" onClick={onDemolish}><TrashIcon /> Demolish</button>
+            </div>
+
+            <div className="coords-meta">
+                Grid: {district.gridX}, {district.gridY}
+            </div>
+        </div>
+    );
+};
+
+export default DistrictPanel;
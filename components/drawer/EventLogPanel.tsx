@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { CityEvent, CityGraph } from '../../types';
+import { describeEvent, EVENT_DEFINITIONS } from '../../utils/events';
+
+interface EventLogPanelProps {
+    city: CityGraph;
+    log: CityEvent[];
+    active: CityEvent[];
+    onSelectDistrict: (id: string) => void;
+}
+
+const EventLogPanel: React.FC<EventLogPanelProps> = ({ city, log, active, onSelectDistrict }) => {
+    const activeIds = new Set(active.map(e => e.id));
+    const entries = [...log].reverse();
+
+    return (
+        <div className="event-log-panel">
+            <p className="setting-hint">
+                Fires, floods, factory accidents, festivals and booms strike at random, more often where conditions invite them.
+                Their effects spill over to neighbouring districts until they end.
+            </p>
+            {entries.length === 0 ? (
+                <p className="setting-hint">Nothing has happened yet.</p>
+            ) : (
+                <ul className="event-log">
+                    {entries.map(event => {
+                        const exists = city.districts.some(d => d.id === event.districtId);
+                        const { effect } = EVENT_DEFINITIONS[event.type];
+                        const good = (effect.happiness ?? 0) > 0;
+                        return (
+                            <li key={event.id} className={`${good ? 'good' : 'bad'} ${activeIds.has(event.id) ? 'active' : ''}`}>
+                                <span className="event-day">Day {event.startTick}</span>
+                                <button onClick={() => onSelectDistrict(event.districtId)} disabled={!exists}>
+                                    {describeEvent(event)}
+                                </button>
+                                {activeIds.has(event.id) && <span className="event-ongoing">ongoing</span>}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default EventLogPanel;
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { CityGraph, RoadRef, RoadTier } from '../../types';
+import { ROAD_TIERS } from '../../constants';
+import { findRoad, roadTierOf } from '../../utils/roads';
+import { linkTrafficFlow } from '../../utils/simulation';
+import { getCityRules } from '../../utils/simulationRules';
+import { TrashIcon } from '../Icons';
+
+interface RoadPanelProps {
+    city: CityGraph;
+    road: RoadRef;
+    onTierChange: (tier: RoadTier) => void;
+    onDelete: () => void;
+}
+
+const RoadPanel: React.FC<RoadPanelProps> = ({ city, road, onTierChange, onDelete }) => {
+    const edge = findRoad(city, road);
+    const source = city.districts.find(d => d.id === road.sourceId);
+    const target = city.districts.find(d => d.id === road.targetId);
+    if (!edge || !source || !target) return <p>This road no longer exists.</p>;
+
+    const rules = getCityRules(city);
+    const tier = roadTierOf(edge.capacity);
+    const directions = [
+        { from: source, to: target, flow: linkTrafficFlow(source, edge.capacity, rules) },
+        { from: target, to: source, flow: linkTrafficFlow(target, edge.capacity, rules) }
+    ];
+
+    return (
+        <div className="road-panel">
+            <p className="desc">{source.name} ↔ {target.name}</p>
+
+            <div className="setting-group">
+                <label>Capacity</label>
+                <div className="tier-picker">
+                    {(Object.keys(ROAD_TIERS) as RoadTier[]).map(t => (
+                        <button key={t} className={t === tier ? 'active' : ''} onClick={() => onTierChange(t)}>
+                            <span>{ROAD_TIERS[t].label}</span>
+                            <small>{ROAD_TIERS[t].capacity}/day</small>
+                        </button>
+                    ))}
+                </div>
+                {edge.capacity !== ROAD_TIERS[tier].capacity && (
+                    <p className="setting-hint">Custom capacity {edge.capacity}; picking a tier replaces it.</p>
+                )}
+            </div>
+
+            <div className="setting-group">
+                <label>Traffic</label>
+                <ul className="flow-list">
+                    {directions.map(({ from, to, flow }) => (
+                        <li key={from.id} className={flow.overflow > 0 ? 'jammed' : ''}>
+                            <span className="flow-name">{from.name} → {to.name}</span>
+                            <div className="bar-container">
+                                <div className="bar-fill" style={{ width: `${Math.min(100, (flow.demand / edge.capacity) * 100)}%` }}></div>
+                            </div>
+                            <span className="flow-value">{flow.carried.toFixed(1)}/{edge.capacity}</span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            <button className="danger-btn" onClick={onDelete}>
+                <TrashIcon /> Remove road
+            </button>
+        </div>
+    );
+};
+
+export default RoadPanel;
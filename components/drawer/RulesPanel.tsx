@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { DistrictType, DistrictTypeRules, InteractionRule, SimulationRules } from '../../types';
+import { DISTRICT_TYPES } from '../../constants';
+import {
+    BASE_RULE_RANGES,
+    GLOBAL_RULE_RANGES,
+    INTERACTION_RULE_RANGES,
+    RULE_PRESETS,
+    RulePresetId,
+    matchRulePreset
+} from '../../utils/simulationRules';
+
+interface RulesPanelProps {
+    rules: SimulationRules;
+    onApply: (rules: SimulationRules) => void;
+}
+
+type GlobalRuleKey = keyof typeof GLOBAL_RULE_RANGES;
+
+const TYPE_ABBREVIATIONS: Record<DistrictType, string> = {
+    residential: 'Res',
+    commercial: 'Com',
+    industrial: 'Ind',
+    park: 'Park',
+    civic: 'Civ'
+};
+
+/**
+ * Edits the city's simulation rules as a draft. Nothing reaches the simulation
+ * until Apply, so tweaking a table doesn't log an action per keystroke.
+ */
+const RulesPanel: React.FC<RulesPanelProps> = ({ rules, onApply }) => {
+    const [draft, setDraft] = useState(rules);
+    const [matrixField, setMatrixField] = useState<keyof InteractionRule>('economy');
+
+    // Pick up rule changes from elsewhere (loading a save, undo...)
+    useEffect(() => setDraft(rules), [rules]);
+
+    const preset = matchRulePreset(draft);
+    const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+
+    const setGlobal = (key: GlobalRuleKey, value: number) => setDraft(d => ({ ...d, [key]: value }));
+
+    const setBase = (type: DistrictType, key: keyof DistrictTypeRules, value: number) =>
+        setDraft(d => ({ ...d, base: { ...d.base, [type]: { ...d.base[type], [key]: value } } }));
+
+    const setInteraction = (self: DistrictType, other: DistrictType, value: number) =>
+        setDraft(d => ({
+            ...d,
+            interactions: {
+                ...d.interactions,
+                [self]: { ...d.interactions[self], [other]: { ...d.interactions[self][other], [matrixField]: value } }
+            }
+        }));
+
+    const numberInput = (value: number, range: { min: number; max: number; step: number }, onChange: (v: number) => void) => (
+        <input
+            type="number"
+            value={value}
+            min={range.min}
+            max={range.max}
+            step={range.step}
+            onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (Number.isFinite(v)) onChange(Math.max(range.min, Math.min(range.max, v)));
+            }}
+        />
+    );
+
+    return (
+        <div className="rules-panel">
+            <div className="setting-group">
+                <label>Preset</label>
+                <select
+                    value={preset ?? 'custom'}
+                    onChange={(e) => {
+                        const id = e.target.value as RulePresetId;
+                        if (RULE_PRESETS[id]) setDraft(RULE_PRESETS[id].rules);
+                    }}
+                >
+                    {(Object.keys(RULE_PRESETS) as RulePresetId[]).map(id => (
+                        <option key={id} value={id}>{RULE_PRESETS[id].label}</option>
+                    ))}
+                    {!preset && <option value="custom">Custom</option>}
+                </select>
+                <p className="setting-hint">{preset ? RULE_PRESETS[preset].description : 'Edited rules. Pick a preset to start over.'}</p>
+            </div>
+
+            <div className="setting-group">
+                <label>Spread &amp; Decay</label>
+                <div className="rules-grid">
+                    {(Object.keys(GLOBAL_RULE_RANGES) as GlobalRuleKey[]).map(key => (
+                        <React.Fragment key={key}>
+                            <span>{GLOBAL_RULE_RANGES[key].label}</span>
+                            {numberInput(draft[key], GLOBAL_RULE_RANGES[key], v => setGlobal(key, v))}
+                        </React.Fragment>
+                    ))}
+                </div>
+            </div>
+
+            <div className="setting-group">
+                <label>Per-Type Effects (each day)</label>
+                <table className="rules-table">
+                    <thead>
+                        <tr>
+                            <th />
+                            {(Object.keys(BASE_RULE_RANGES) as (keyof DistrictTypeRules)[]).map(key => <th key={key}>{BASE_RULE_RANGES[key].label}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {DISTRICT_TYPES.map(type => (
+                            <tr key={type}>
+                                <th>{type}</th>
+                                {(Object.keys(BASE_RULE_RANGES) as (keyof DistrictTypeRules)[]).map(key => (
+                                    <td key={key}>{numberInput(draft.base[type][key], BASE_RULE_RANGES[key], v => setBase(type, key, v))}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="setting-group">
+                <label>Neighbour Interactions</label>
+                <select value={matrixField} onChange={(e) => setMatrixField(e.target.value as keyof InteractionRule)}>
+                    {(Object.keys(INTERACTION_RULE_RANGES) as (keyof InteractionRule)[]).map(key => (
+                        <option key={key} value={key}>{INTERACTION_RULE_RANGES[key].label}</option>
+                    ))}
+                </select>
+                <table className="rules-table matrix">
+                    <thead>
+                        <tr>
+                            <th title="District ↓ next to neighbour →" />
+                            {DISTRICT_TYPES.map(other => <th key={other}>{TYPE_ABBREVIATIONS[other]}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {DISTRICT_TYPES.map(self => (
+                            <tr key={self}>
+                                <th>{TYPE_ABBREVIATIONS[self]}</th>
+                                {DISTRICT_TYPES.map(other => (
+                                    <td key={other}>
+                                        {numberInput(draft.interactions[self][other][matrixField], INTERACTION_RULE_RANGES[matrixField], v => setInteraction(self, other, v))}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="setting-hint">Rows are the district receiving the effect, columns the linked neighbour.</p>
+            </div>
+
+            <div className="form-actions">
+                <button onClick={() => setDraft(rules)} disabled={!isDirty}>Discard</button>
+                <button className="primary" onClick={() => onApply(draft)} disabled={!isDirty}>Apply rules</button>
+            </div>
+        </div>
+    );
+};
+
+export default RulesPanel;
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { CitySaveSlot, ReplayLog } from '../../types';
+import { CITY_FILE_EXTENSION } from '../../utils/cityFile';
+import { TrashIcon, DownloadIcon } from '../Icons';
+
+interface SavesPanelProps {
+    slots: CitySaveSlot[];
+    defaultName: string;
+    onSave: (name: string) => void;
+    onLoad: (slot: CitySaveSlot) => void;
+    onDelete: (id: string, e: React.MouseEvent) => void;
+    onExport: () => void;
+    onImportFile: (file: File) => void;
+    importErrors: string[];
+    replayLog: ReplayLog;
+    onStartReplay: () => void;
+}
+
+const SavesPanel: React.FC<SavesPanelProps> = ({ slots, defaultName, onSave, onLoad, onDelete, onExport, onImportFile, importErrors, replayLog, onStartReplay }) => {
+    const [saveName, setSaveName] = useState(defaultName);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    return (
+        <div className="saves-panel">
+            <div className="save-form">
+                <input
+                    type="text"
+                    value={saveName}
+                    onChange={(e) => setSaveName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveName.trim() && onSave(saveName.trim())}
+                    placeholder="Save name"
+                />
+                <button onClick={() => onSave(saveName.trim())} disabled={!saveName.trim()}>Save</button>
+            </div>
+            <div className="file-actions">
+                <button onClick={onExport}><DownloadIcon /> Export {CITY_FILE_EXTENSION}</button>
+                <button onClick={() => fileInputRef.current?.click()}>Import file…</button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    style={{ display: 'none' }}
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onImportFile(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+            <div className="drop-hint">or drop a {CITY_FILE_EXTENSION} file anywhere on the map</div>
+            <div className="replay-box">
+                <div className="replay-meta">
+                    <span>Seed <code>{replayLog.seed.toString(16).padStart(8, '0')}</code></span>
+                    <span>{replayLog.actions.length} logged action{replayLog.actions.length === 1 ? '' : 's'} since day {replayLog.startTick}</span>
+                </div>
+                <button onClick={onStartReplay}>Replay from day {replayLog.startTick}</button>
+            </div>
+            {importErrors.length > 0 && (
+                <div className="import-errors">
+                    <strong>Import failed ({importErrors.length} problem{importErrors.length === 1 ? '' : 's'})</strong>
+                    <ul>
+                        {importErrors.map((err, i) => <li key={i}>{err}</li>)}
+                    </ul>
+                </div>
+            )}
+            {slots.length === 0 ? (
+                <div className="empty-history">No saved cities yet.</div>
+            ) : (
+                <div className="history-list">
+                    {slots.map(slot => (
+                        <div key={slot.id} className="history-item" onClick={() => onLoad(slot)}>
+                            <div className="history-item-content">
+                                <div className="history-prompt">
+                                    {slot.name}
+                                    {slot.isAutosave && <span className="autosave-badge">Auto</span>}
+                                </div>
+                                <div className="history-meta">
+                                    {slot.snapshot.city.districts.length} districts · Day {slot.snapshot.tickCount} · {new Date(slot.savedAt).toLocaleString()}
+                                </div>
+                            </div>
+                            <button className="delete-session-btn" onClick={(e) => onDelete(slot.id, e)}>
+                                <TrashIcon />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SavesPanel;
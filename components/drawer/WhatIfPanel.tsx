@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { CityGraph, DistrictStats, StagedBuild } from '../../types';
+import { STAT_KEYS } from '../../utils/statHistory';
+import { WHAT_IF_DAYS } from '../../utils/whatIf';
+import { formatMoney } from '../../utils/budget';
+import { ImpactChips } from './AdvisorPanel';
+
+interface WhatIfPanelProps {
+    city: CityGraph;
+    staged: StagedBuild | null;
+    treasury: number;
+    isGenerating: boolean;
+    onAccept: () => void;
+    onReject: () => void;
+    onRegenerate: () => void;
+}
+
+const diffStats = (before: DistrictStats, after: DistrictStats) =>
+    Object.fromEntries(STAT_KEYS.map(k => [k, after[k] - before[k]])) as Record<keyof DistrictStats, number>;
+
+const WhatIfPanel: React.FC<WhatIfPanelProps> = ({ city, staged, treasury, isGenerating, onAccept, onReject, onRegenerate }) => {
+    if (!staged) {
+        return <p className="setting-hint">{isGenerating ? 'Generating a district…' : 'No district is waiting for review.'}</p>;
+    }
+
+    const { district, forecast, repairs, cost } = staged;
+    const affordable = cost <= treasury;
+    const treasuryChange = forecast && forecast.treasury.after - forecast.treasury.before;
+    const nameOf = (id: string) => city.districts.find(d => d.id === id)?.name ?? id;
+
+    return (
+        <div className="whatif-panel">
+            <div className="whatif-district">
+                <span className="whatif-type">{district.type}</span>
+                <strong>{district.name}</strong>
+                <p>{district.description}</p>
+            </div>
+            {repairs.length > 0 && <p className="setting-hint">Fixed up: {repairs.join('; ')}</p>}
+            <p className={affordable ? 'setting-hint' : 'import-errors'}>
+                Costs {formatMoney(cost)} to build{affordable ? '' : `, but the treasury only has ${formatMoney(treasury)}`}.
+            </p>
+
+            {!forecast ? (
+                <p className="setting-hint">Simulating {WHAT_IF_DAYS} days with and without it…</p>
+            ) : (
+                <>
+                    <div className="whatif-section">
+                        <h4>City after {forecast.days} days</h4>
+                        <ImpactChips impact={diffStats(forecast.city.before, forecast.city.after)} />
+                        <p className="setting-hint">
+                            Treasury {treasuryChange >= 0 ? '+' : ''}{formatMoney(treasuryChange)} compared with not building, after construction.
+                        </p>
+                    </div>
+                    {forecast.neighbors.length > 0 && (
+                        <div className="whatif-section">
+                            <h4>Neighbours</h4>
+                            <ul className="whatif-neighbors">
+                                {forecast.neighbors.map(n => (
+                                    <li key={n.id}>
+                                        <span>{nameOf(n.id)}</span>
+                                        <ImpactChips impact={diffStats(n.before, n.after)} />
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </>
+            )}
+
+            <div className="form-actions">
+                <button onClick={onReject}>Reject</button>
+                <button onClick={onRegenerate} disabled={isGenerating}>Regenerate</button>
+                <button className="primary" onClick={onAccept} disabled={!affordable}>Accept</button>
+            </div>
+        </div>
+    );
+};
+
+export default WhatIfPanel;
@@ -4,7 +4,26 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { LayoutOption } from './types';
+import { LayoutOption, DistrictType, BuildingType, RoadTier } from './types';
+
+// City Builder
+
+export const DISTRICT_TYPES: DistrictType[] = ['residential', 'commercial', 'industrial', 'park', 'civic'];
+
+export const BUILDING_TYPES: BuildingType[] = ['highrise', 'house', 'factory', 'shop'];
+
+export const MAX_POPULATION = 5000;
+
+/** Capacity is in traffic units per tick; width and colours are SVG units on the tabletop. */
+export const ROAD_TIERS: Record<RoadTier, { label: string; capacity: number; width: number; color: string; marking: string | null }> = {
+    lane: { label: 'Lane', capacity: 5, width: 5, color: '#78716c', marking: null },
+    avenue: { label: 'Avenue', capacity: 10, width: 8, color: '#555', marking: '#e5e5e5' },
+    highway: { label: 'Highway', capacity: 20, width: 13, color: '#3f3f46', marking: '#facc15' }
+};
+
+export const DEFAULT_ROAD_TIER: RoadTier = 'avenue';
+
+// UI Builder (Legacy)
 
 export const INITIAL_PLACEHOLDERS = [
     "Design a minimalist weather card",
@@ -4,59 +4,96 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { useState, useCallback } from 'react';
-
-export function useHistory<T>(initialState: T) {
-    const [state, setState] = useState<T>(initialState);
-    const [past, setPast] = useState<T[]>([]);
-    const [future, setFuture] = useState<T[]>([]);
-
-    const set = useCallback((newState: T | ((prev: T) => T)) => {
-        setState((currentState) => {
-            const nextState = typeof newState === 'function' 
-                ? (newState as (prev: T) => T)(currentState) 
-                : newState;
-            
-            if (nextState !== currentState) {
-                setPast((prevPast) => [...prevPast, currentState]);
-                setFuture([]);
-            }
-            return nextState;
+import { useState, useCallback, SetStateAction } from 'react';
+
+export interface HistoryEntry<C> {
+    undo: C;
+    redo: C;
+}
+
+export interface HistoryOptions<T, C> {
+    /** Applies a command, returning the new state and the command that reverts it (null if nothing changed). */
+    execute: (state: T, command: C) => { state: T; inverse: C | null };
+    /** Oldest entries are dropped past this many. */
+    limit?: number;
+}
+
+interface HistoryState<T, C> {
+    present: T;
+    past: HistoryEntry<C>[];
+    future: HistoryEntry<C>[];
+}
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Command-based undo/redo. Only changes made through `run` are undoable; `set`
+ * updates the state without touching the stacks (for ticks, camera moves...).
+ *
+ * The state and both stacks live in one piece of React state and every
+ * transition is a pure updater, so undo/redo never read a stale `state` from a
+ * closure and rapid repeated calls each see the result of the last.
+ */
+export function useHistory<T, C>(initialState: T | (() => T), { execute, limit = DEFAULT_LIMIT }: HistoryOptions<T, C>) {
+    const [history, setHistory] = useState<HistoryState<T, C>>(() => ({
+        present: typeof initialState === 'function' ? (initialState as () => T)() : initialState,
+        past: [],
+        future: []
+    }));
+
+    const set = useCallback((update: SetStateAction<T>) => {
+        setHistory(h => {
+            const present = typeof update === 'function' ? (update as (prev: T) => T)(h.present) : update;
+            return present === h.present ? h : { ...h, present };
         });
     }, []);
 
+    /** Replaces the state and forgets all history, e.g. after loading a different city. */
+    const reset = useCallback((update: SetStateAction<T>) => {
+        setHistory(h => ({
+            present: typeof update === 'function' ? (update as (prev: T) => T)(h.present) : update,
+            past: [],
+            future: []
+        }));
+    }, []);
+
+    const run = useCallback((command: C | ((state: T) => C | null)) => {
+        setHistory(h => {
+            const resolved = typeof command === 'function' ? (command as (state: T) => C | null)(h.present) : command;
+            if (resolved === null) return h;
+            const { state, inverse } = execute(h.present, resolved);
+            if (!inverse) return { ...h, present: state };
+            return { present: state, past: [...h.past, { undo: inverse, redo: resolved }].slice(-limit), future: [] };
+        });
+    }, [execute, limit]);
+
     const undo = useCallback(() => {
-        setPast((prevPast) => {
-            if (prevPast.length === 0) return prevPast;
-            const newPast = [...prevPast];
-            const previousState = newPast.pop() as T;
-            
-            setFuture((prevFuture) => [state, ...prevFuture]);
-            setState(previousState);
-            
-            return newPast;
+        setHistory(h => {
+            const entry = h.past[h.past.length - 1];
+            if (!entry) return h;
+            const { state, inverse } = execute(h.present, entry.undo);
+            // Redo with the exact inverse of what was undone (e.g. restore the demolished district, not rebuild it)
+            return { present: state, past: h.past.slice(0, -1), future: [{ undo: entry.undo, redo: inverse ?? entry.redo }, ...h.future] };
         });
-    }, [state]);
+    }, [execute]);
 
     const redo = useCallback(() => {
-        setFuture((prevFuture) => {
-            if (prevFuture.length === 0) return prevFuture;
-            const newFuture = [...prevFuture];
-            const nextState = newFuture.shift() as T;
-            
-            setPast((prevPast) => [...prevPast, state]);
-            setState(nextState);
-            
-            return newFuture;
+        setHistory(h => {
+            const entry = h.future[0];
+            if (!entry) return h;
+            const { state, inverse } = execute(h.present, entry.redo);
+            return { present: state, past: [...h.past, { undo: inverse ?? entry.undo, redo: entry.redo }], future: h.future.slice(1) };
         });
-    }, [state]);
+    }, [execute]);
 
     return {
-        state,
+        state: history.present,
         set,
+        reset,
+        run,
         undo,
         redo,
-        canUndo: past.length > 0,
-        canRedo: future.length > 0
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0
     };
 }
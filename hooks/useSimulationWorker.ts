@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { CityAction, GameState, SimState, WhatIfForecast } from '../types';
+import { createSimulationEngine, EngineResult, SimWorkerRequest, SimWorkerResponse } from '../utils/simulationEngine';
+import { recordStatHistory } from '../utils/statHistory';
+import { forecastWhatIf } from '../utils/whatIf';
+import { appendEventLog } from '../utils/events';
+
+/**
+ * Folds worker tick deltas into the game state, recording stat history for every day.
+ */
+export const applyEngineResult = (state: GameState, result: EngineResult): GameState => {
+    let next = state;
+    result.ticks.forEach(delta => {
+        const city = delta.city ?? {
+            ...next.city,
+            districts: next.city.districts.map(d => delta.changedStats[d.id] ? { ...d, stats: delta.changedStats[d.id] } : d)
+        };
+        next = {
+            ...next,
+            city,
+            tickCount: delta.tickCount,
+            replayQueue: delta.replayConsumed ? next.replayQueue.slice(delta.replayConsumed) : next.replayQueue,
+            statHistory: recordStatHistory(next.statHistory, city, delta.tickCount),
+            eventLog: appendEventLog(next.eventLog, delta.startedEvents)
+        };
+    });
+    return { ...next, rngState: result.rngState, treasury: result.treasury, events: result.events };
+};
+
+interface PendingRequest {
+    baseCity: GameState['city'];
+    resolve: () => void;
+}
+
+interface PendingForecast {
+    resolve: (forecast: WhatIfForecast) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Runs simulation ticks in a Web Worker (or inline if workers are unavailable).
+ *
+ * The worker keeps its own copy of the city. Whenever the city object in React
+ * state is not the one the worker last produced (a build, a load, an edit...),
+ * the next request resyncs it first. Results that arrive after the city was
+ * changed underneath them are dropped rather than merged over the edit.
+ */
+export function useSimulationWorker(gameState: GameState, setGameState: Dispatch<SetStateAction<GameState>>) {
+    const stateRef = useRef(gameState);
+    stateRef.current = gameState;
+
+    const workerRef = useRef<Worker | null>(null);
+    const fallbackRef = useRef<ReturnType<typeof createSimulationEngine> | null>(null);
+    const pendingRef = useRef<Map<number, PendingRequest>>(new Map());
+    const forecastsRef = useRef<Map<number, PendingForecast>>(new Map());
+    const nextRequestId = useRef(0);
+    const busyRef = useRef(false);
+    // Resolved after the render that applies a result, so the next request sees the new city
+    const commitWaiters = useRef<(() => void)[]>([]);
+
+    // Each city object the worker has been synced to is tagged with a sequence number;
+    // the worker is in sync only when the current city carries the latest one.
+    const cityTags = useRef(new WeakMap<object, number>());
+    const workerSeq = useRef(0);
+
+    const handleResponse = useCallback((msg: SimWorkerResponse) => {
+        // Forecasts don't touch the game state; they just settle their promise
+        const forecast = forecastsRef.current.get(msg.requestId);
+        if (forecast) {
+            forecastsRef.current.delete(msg.requestId);
+            if (msg.type === 'forecast') forecast.resolve(msg.forecast);
+            else forecast.reject(new Error(msg.type === 'error' ? msg.message : 'Unexpected forecast response'));
+            return;
+        }
+
+        const pending = pendingRef.current.get(msg.requestId);
+        if (!pending) return;
+        pendingRef.current.delete(msg.requestId);
+
+        const seq = ++workerSeq.current;
+        if (msg.type !== 'result') {
+            console.error('Simulation worker failed:', msg.type === 'error' ? msg.message : `unexpected ${msg.type} response`);
+            pending.resolve();
+            return;
+        }
+        commitWaiters.current.push(pending.resolve);
+        setGameState(prev => {
+            // Always return a new object so a render (and the commit waiter) follows
+            if (prev.city !== pending.baseCity) return { ...prev };
+            const next = applyEngineResult(prev, msg.result);
+            cityTags.current.set(next.city, seq);
+            return next;
+        });
+    }, [setGameState]);
+
+    useEffect(() => {
+        const waiters = commitWaiters.current;
+        commitWaiters.current = [];
+        waiters.forEach(resolve => resolve());
+    }, [gameState]);
+
+    const post = useCallback((msg: SimWorkerRequest) => {
+        if (workerRef.current) {
+            workerRef.current.postMessage(msg);
+            return;
+        }
+        const engine = fallbackRef.current ??= createSimulationEngine();
+        if (msg.type === 'reset') {
+            engine.reset(msg.state);
+            return;
+        }
+        if (msg.type === 'forecast') {
+            // A macrotask rather than a microtask, so the staged ghost can render before the fork runs
+            setTimeout(() => {
+                try {
+                    handleResponse({ type: 'forecast', requestId: msg.requestId, forecast: forecastWhatIf(msg.state, msg.action, msg.districtId, msg.days) });
+                } catch (err) {
+                    handleResponse({ type: 'error', requestId: msg.requestId, message: (err as Error).message });
+                }
+            });
+            return;
+        }
+        const count = msg.type === 'batch' ? msg.count : 1;
+        queueMicrotask(() => {
+            try {
+                handleResponse({ type: 'result', requestId: msg.requestId, result: engine.run(count) });
+            } catch (err) {
+                handleResponse({ type: 'error', requestId: msg.requestId, message: (err as Error).message });
+            }
+        });
+    }, [handleResponse]);
+
+    useEffect(() => {
+        let worker: Worker | null = null;
+        try {
+            worker = new Worker(new URL('../utils/simulation.worker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (e: MessageEvent<SimWorkerResponse>) => handleResponse(e.data);
+            worker.onerror = (e) => {
+                console.error('Simulation worker crashed, falling back to main thread:', e.message);
+                worker?.terminate();
+                workerRef.current = null;
+                workerSeq.current++; // force a resync into the fallback engine
+                pendingRef.current.forEach(p => p.resolve());
+                pendingRef.current.clear();
+                forecastsRef.current.forEach(f => f.reject(new Error('Simulation worker crashed')));
+                forecastsRef.current.clear();
+            };
+            workerRef.current = worker;
+        } catch (e) {
+            console.warn('Web Workers unavailable, simulating on the main thread.', e);
+        }
+        return () => {
+            worker?.terminate();
+            workerRef.current = null;
+        };
+    }, [handleResponse]);
+
+    const isBusy = useCallback(() => busyRef.current, []);
+
+    /**
+     * Advances the simulation by `count` days. Resolves once the result has been
+     * applied (or discarded as stale). Only one request is in flight at a time.
+     */
+    const runTicks = useCallback((count: number): Promise<void> => {
+        if (isBusy()) return Promise.resolve();
+        const current = stateRef.current;
+
+        if (cityTags.current.get(current.city) !== workerSeq.current) {
+            const seq = ++workerSeq.current;
+            cityTags.current.set(current.city, seq);
+            post({
+                type: 'reset',
+                state: {
+                    city: current.city,
+                    tickCount: current.tickCount,
+                    rngState: current.rngState,
+                    treasury: current.treasury,
+                    events: current.events,
+                    replayQueue: current.replayQueue
+                }
+            });
+        }
+
+        busyRef.current = true;
+        return new Promise(resolve => {
+            const requestId = ++nextRequestId.current;
+            const done = () => {
+                busyRef.current = false;
+                resolve();
+            };
+            pendingRef.current.set(requestId, { baseCity: current.city, resolve: done });
+            post(count === 1 ? { type: 'tick', requestId } : { type: 'batch', requestId, count });
+        });
+    }, [isBusy, post]);
+
+    /**
+     * Simulates `days` ahead on a fork of `state` with and without `action`, off
+     * the UI thread when possible. Doesn't touch the live simulation.
+     */
+    const forecast = useCallback((state: SimState, action: CityAction, districtId: string, days: number): Promise<WhatIfForecast> =>
+        new Promise((resolve, reject) => {
+            const requestId = ++nextRequestId.current;
+            forecastsRef.current.set(requestId, { resolve, reject });
+            post({ type: 'forecast', requestId, state, action, districtId, days });
+        }), [post]);
+
+    return { runTicks, isBusy, forecast };
+}
@@ -6,94 +6,394 @@
 
 // Miniature City Builder - Vibe Coded
 
-import { GoogleGenAI } from '@google/genai';
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
 
-import { CityGraph, District, GameState, CameraState } from './types';
-import { runSimulationTick } from './utils/simulation';
+import { CityGraph, GameState, CameraState, CitySaveSlot, CitySnapshot, AiSettings, DisplaySettings, CityAction, TiltShiftParams, SimSpeed, GenerationMode, AdvisorReport, StagedBuild, Scenario, OverlayMode, GenerationProgress, SimulationRules, RoadRef, RoadTier, District, DistrictEdit } from './types';
+import { DEFAULT_ROAD_TIER, ROAD_TIERS } from './constants';
+import { generateId } from './utils';
+import { applyCityAction, applyDueReplayActions, createReplayLog, invertCityAction, replayCity, replayStartState } from './utils/cityActions';
+import { createRng, randomSeed } from './utils/rng';
+import { findFreeNeighbor } from './utils/placement';
+import { summarizeCity } from './utils/cityContext';
+import { recommendationAction, requestAdvice } from './utils/advisor';
+import { WHAT_IF_DAYS } from './utils/whatIf';
+import { createStatHistory } from './utils/statHistory';
+import { constructionCost, dailyBudget, editCost, formatMoney, STARTING_TREASURY } from './utils/budget';
+import { getCityRules } from './utils/simulationRules';
+import { connectError } from './utils/roads';
+import { useSimulationWorker } from './hooks/useSimulationWorker';
+import { useHistory } from './hooks/useHistory';
+import { AUTOSAVE_SLOT_ID, deleteCitySlot, loadAutosave, loadCitySlots, saveCitySlot } from './utils/cityStorage';
+import { exportCityFile, parseCityFile } from './utils/cityFile';
+import { isAbortError, requestDistrict, requestDistrictCluster, MAX_GENERATION_ATTEMPTS } from './utils/districtGenerator';
+import { AiProvider, createAiProvider } from './utils/aiProvider';
+import { loadAiSettings, loadDisplaySettings, saveAiSettings, saveDisplaySettings } from './utils/storage';
 import CityCanvas from './components/CityCanvas';
 import GameUI from './components/GameUI';
 import SideDrawer from './components/SideDrawer';
+import ConfirmationModal from './components/ConfirmationModal';
+import SavesPanel from './components/drawer/SavesPanel';
+import CitySettingsPanel from './components/drawer/CitySettingsPanel';
+import DistrictPanel from './components/drawer/DistrictPanel';
+import DashboardPanel from './components/drawer/DashboardPanel';
+import RoadPanel from './components/drawer/RoadPanel';
+import AdvisorPanel from './components/drawer/AdvisorPanel';
+import WhatIfPanel from './components/drawer/WhatIfPanel';
+import BudgetPanel from './components/drawer/BudgetPanel';
+import EventLogPanel from './components/drawer/EventLogPanel';
+import ScenarioPicker from './components/ScenarioPicker';
+import ScenarioSummary from './components/ScenarioSummary';
+import { bannedTypes, getScenario, goalProgress, isTypeAllowed, SANDBOX_SCENARIO_ID, scenarioOutcome } from './utils/scenarios';
 
-// 3. Prompt template for generating miniature‑looking districts
-const GENERATION_PROMPT_TEMPLATE = `
-You are a city planner AI. Generate a single new city district based on the user request.
-Current City Context: {CONTEXT_SUMMARY}
-Request: "{USER_REQUEST}"
-
-Return STRICT JSON matching this schema:
-{
-  "name": "string (creative name)",
-  "type": "residential" | "commercial" | "industrial" | "park" | "civic",
-  "stats": {
-    "population": number (0-5000),
-    "trafficFlow": number (0-100),
-    "pollution": number (0-100),
-    "happiness": number (0-100),
-    "economy": number (0-100),
-    "transitScore": number (0-100)
-  },
-  "visuals": {
-    "buildings": [
-       { "type": "highrise"|"house"|"factory"|"shop", "count": number (1-5), "color": "hex string" }
-    ],
-    "greenery": number (0.0-1.0),
-    "water": boolean
-  },
-  "description": "Short flavor text (max 20 words)"
-}
-`;
-
-// Initial Mock Data
-const INITIAL_CITY: CityGraph = {
-    name: "Neo-Miniatura",
-    districts: [
-        {
-            id: 'd1',
-            name: 'Old Town',
-            type: 'residential',
-            gridX: 0,
-            gridY: 0,
-            stats: { population: 1200, trafficFlow: 20, pollution: 10, happiness: 85, economy: 40, transitScore: 60 },
-            visuals: { buildings: [{ type: 'house', count: 4, color: '#e2e8f0' }], greenery: 0.8, water: false },
-            description: "The historic center."
-        }
-    ],
-    edges: []
+const AUTOSAVE_INTERVAL_MS = 30000;
+const BASE_TICK_MS = 2000; // One day every 2s at 1x
+const FAST_FORWARD_DAYS = 100;
+const FAST_FORWARD_BATCH = 20; // Ticks computed per render while fast-forwarding
+
+const DEFAULT_TILT_SHIFT: TiltShiftParams = { blurStrength: 6, saturation: 1.4, vignette: 0.4 };
+
+/** Starts a fresh replay log for `city` with a new random seed. */
+const createCitySnapshot = (city: CityGraph, tiltShift = DEFAULT_TILT_SHIFT, treasury = STARTING_TREASURY, scenarioId: string | null = null): CitySnapshot => {
+    const seed = randomSeed();
+    return {
+        city,
+        tickCount: 0,
+        tiltShift,
+        camera: { x: 0, y: 0, zoom: 1 },
+        rngState: seed,
+        treasury,
+        events: [],
+        eventLog: [],
+        scenarioId,
+        scenarioResult: null,
+        replayLog: createReplayLog(seed, city, 0, treasury)
+    };
+};
+
+const createScenarioSnapshot = (scenario: Scenario, tiltShift = DEFAULT_TILT_SHIFT): CitySnapshot =>
+    createCitySnapshot(scenario.city, tiltShift, scenario.budget, scenario.id);
+
+const toSnapshot = (state: GameState): CitySnapshot => ({
+    city: state.city,
+    tickCount: state.tickCount,
+    camera: state.camera,
+    tiltShift: state.tiltShift,
+    rngState: state.rngState,
+    treasury: state.treasury,
+    events: state.events,
+    eventLog: state.eventLog,
+    scenarioId: state.scenarioId,
+    scenarioResult: state.scenarioResult,
+    replayLog: state.replayLog
+});
+
+/** Applies an action and appends it to the replay log. Cancels any live replay still in progress. */
+const recordAction = (state: GameState, action: CityAction): GameState => ({
+    ...state,
+    ...applyCityAction(state, action),
+    replayLog: { ...state.replayLog, actions: [...state.replayLog.actions, { tick: state.tickCount, action }] },
+    replayQueue: []
+});
+
+/** Undo history command: records the action and works out the action that reverts it. */
+const executeCityCommand = (state: GameState, action: CityAction) => {
+    const next = recordAction(state, action);
+    return { state: next, inverse: invertCityAction(state.city, next.city, action) };
 };
 
+type DrawerMode = 'district' | 'road' | 'saves' | 'settings' | 'dashboard' | 'advisor' | 'whatif' | 'budget' | 'events';
+
+const DRAWER_TITLES: Record<Exclude<DrawerMode, 'district'>, string> = {
+    road: 'Road',
+    saves: 'Saved Cities',
+    settings: 'Settings',
+    dashboard: 'City Dashboard',
+    advisor: 'City Advisor',
+    whatif: 'Preview District',
+    budget: 'Budget',
+    events: 'Event Log'
+};
+
+interface PendingLoad {
+    name: string;
+    snapshot: CitySnapshot;
+    warnings?: string[];
+}
+
 function App() {
-    const [gameState, setGameState] = useState<GameState>({
-        city: INITIAL_CITY,
+    // City edits go through `runCommand` and are undoable; ticks, camera and selection use `setGameState`
+    const {
+        state: gameState,
+        set: setGameState,
+        reset: resetGameState,
+        run: runCommand,
+        undo,
+        redo,
+        canUndo,
+        canRedo
+    } = useHistory<GameState, CityAction>(() => ({
+        ...(loadAutosave() ?? createScenarioSnapshot(getScenario(SANDBOX_SCENARIO_ID)!)),
         selectedDistrictId: null,
         isSimulating: true,
-        tickCount: 0,
-        tiltShift: { blurStrength: 6, saturation: 1.4, vignette: 0.4 },
-        camera: { x: 0, y: 0, zoom: 1 }
-    });
+        speed: 1,
+        replayQueue: [],
+        statHistory: createStatHistory()
+    }), { execute: executeCityCommand });
 
     const [aiInput, setAiInput] = useState('');
-    const [isGenerating, setIsGenerating] = useState(false);
+    const [generation, setGeneration] = useState<GenerationProgress | null>(null);
+    const generationAbort = useRef<AbortController | null>(null);
+    const [generationMode, setGenerationMode] = useState<GenerationMode>('single');
+    const [overlay, setOverlay] = useState<OverlayMode>(null);
+    const [advice, setAdvice] = useState<AdvisorReport | null>(null);
+    const [isAdvising, setIsAdvising] = useState(false);
+    const [adviceError, setAdviceError] = useState<string | null>(null);
+    const [staged, setStaged] = useState<StagedBuild | null>(null);
+    const [repairNotes, setRepairNotes] = useState<string[]>([]);
+    const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+    const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(loadDisplaySettings);
     const [drawerOpen, setDrawerOpen] = useState(false);
+    const [drawerMode, setDrawerMode] = useState<DrawerMode>('district');
+    const [saveSlots, setSaveSlots] = useState<CitySaveSlot[]>([]);
+    const [pendingLoad, setPendingLoad] = useState<PendingLoad | null>(null);
+    const [importErrors, setImportErrors] = useState<string[]>([]);
+    const [fastForward, setFastForward] = useState<{ done: number; total: number } | null>(null);
+    const cancelFastForwardRef = useRef(false);
+    const [roadTool, setRoadTool] = useState<{ tier: RoadTier; startId: string | null } | null>(null);
+    const [roadNotice, setRoadNotice] = useState<string | null>(null);
+    const [selectedRoad, setSelectedRoad] = useState<RoadRef | null>(null);
+    const [pendingDemolish, setPendingDemolish] = useState<District | null>(null);
+    // First launch starts on the picker; after that the autosave picks up where the player left off
+    const [scenarioPickerOpen, setScenarioPickerOpen] = useState(() => loadAutosave() === null);
+    const [summaryOpen, setSummaryOpen] = useState(false);
+
+    // Latest state for the autosave timer (so the interval doesn't restart every tick) and for async handlers
+    const gameStateRef = useRef(gameState);
+    gameStateRef.current = gameState;
+
+    const isFastForwarding = fastForward !== null;
+    const { runTicks, isBusy, forecast } = useSimulationWorker(gameState, setGameState);
 
-    // Simulation Loop
+    // Simulation Loop (ticks are computed in a worker; a slow tick is skipped, not queued)
     useEffect(() => {
-        if (!gameState.isSimulating) return;
+        if (!gameState.isSimulating || isFastForwarding) return;
         const interval = setInterval(() => {
-            setGameState(prev => {
-                const updatedCity = runSimulationTick(prev.city);
-                return { ...prev, city: updatedCity, tickCount: prev.tickCount + 1 };
-            });
-        }, 2000); // Tick every 2s
+            if (!isBusy()) runTicks(1);
+        }, BASE_TICK_MS / gameState.speed);
         return () => clearInterval(interval);
-    }, [gameState.isSimulating]);
+    }, [gameState.isSimulating, gameState.speed, isFastForwarding, runTicks, isBusy]);
+
+    const scenario = getScenario(gameState.scenarioId);
+    const goals = useMemo(() => goalProgress(scenario, gameState), [scenario, gameState.city, gameState.treasury]);
+
+    // Ends the scenario the day its goals are all met or its time runs out
+    useEffect(() => {
+        if (!scenario || gameState.scenarioResult) return;
+        const outcome = scenarioOutcome(scenario, gameState);
+        if (!outcome) return;
+        cancelFastForwardRef.current = true;
+        setGameState(prev => prev.scenarioResult ? prev : { ...prev, isSimulating: false, scenarioResult: { outcome, tick: prev.tickCount } });
+        setSummaryOpen(true);
+    }, [scenario, gameState.tickCount, gameState.city, gameState.treasury, gameState.scenarioResult, setGameState]);
+
+    // Autosave Loop
+    useEffect(() => {
+        const autosave = () => saveCitySlot(AUTOSAVE_SLOT_ID, 'Autosave', toSnapshot(gameStateRef.current));
+        const interval = setInterval(autosave, AUTOSAVE_INTERVAL_MS);
+        window.addEventListener('beforeunload', autosave);
+        return () => {
+            clearInterval(interval);
+            window.removeEventListener('beforeunload', autosave);
+        };
+    }, []);
 
     const handleSelectDistrict = (id: string) => {
+        if (roadTool) {
+            handleRoadToolPick(id);
+            return;
+        }
         setGameState(prev => ({ ...prev, selectedDistrictId: id }));
+        setDrawerMode('district');
+        setDrawerOpen(true);
+    };
+
+    // Escape cancels generation or backs out of the road tool; Delete removes the road open in the drawer; Ctrl+Z / Ctrl+Shift+Z undo and redo
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+            const key = e.key.toLowerCase();
+            if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+                e.preventDefault();
+                if (key === 'y' || e.shiftKey) redo();
+                else undo();
+            } else if (e.key === 'Escape' && generation) {
+                handleCancelGenerate();
+            } else if (e.key === 'Escape' && roadTool) {
+                setRoadTool(roadTool.startId ? { ...roadTool, startId: null } : null);
+                setRoadNotice(null);
+            } else if ((e.key === 'Delete' || e.key === 'Backspace') && drawerOpen && drawerMode === 'road') {
+                handleDeleteRoad();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
+
+    // Road tool: first click picks the start district, second click builds the road
+    const handleRoadToolPick = (id: string) => {
+        if (!roadTool) return;
+        setRoadNotice(null);
+        if (!roadTool.startId || roadTool.startId === id) {
+            setRoadTool({ ...roadTool, startId: roadTool.startId === id ? null : id });
+            return;
+        }
+        const road: RoadRef = { sourceId: roadTool.startId, targetId: id };
+        const error = connectError(gameState.city, road);
+        if (error) {
+            setRoadNotice(error);
+        } else {
+            runCommand({ type: 'connect', road, capacity: ROAD_TIERS[roadTool.tier].capacity });
+        }
+        setRoadTool({ ...roadTool, startId: null });
+    };
+
+    const handleToggleRoadTool = () => {
+        setRoadTool(prev => prev ? null : { tier: DEFAULT_ROAD_TIER, startId: null });
+        setRoadNotice(null);
+    };
+
+    const handleSelectRoad = (road: RoadRef) => {
+        setSelectedRoad(road);
+        setDrawerMode('road');
+        setDrawerOpen(true);
+    };
+
+    const handleRoadTierChange = (tier: RoadTier) => {
+        if (!selectedRoad) return;
+        runCommand({ type: 'setRoadCapacity', road: selectedRoad, capacity: ROAD_TIERS[tier].capacity });
+    };
+
+    const handleDeleteRoad = () => {
+        if (!selectedRoad) return;
+        runCommand({ type: 'disconnect', road: selectedRoad });
+        setSelectedRoad(null);
+        setDrawerOpen(false);
+    };
+
+    const handleMoveDistrict = (districtId: string, gridX: number, gridY: number) => {
+        runCommand({ type: 'move', districtId, gridX, gridY });
+    };
+
+    const handleEditDistrict = (districtId: string, edit: DistrictEdit) => {
+        runCommand({ type: 'editDistrict', districtId, edit });
+    };
+
+    const confirmDemolish = () => {
+        if (!pendingDemolish) return;
+        const districtId = pendingDemolish.id;
+        runCommand({ type: 'demolish', districtId });
+        setGameState(prev => prev.selectedDistrictId === districtId ? { ...prev, selectedDistrictId: null } : prev);
+        setPendingDemolish(null);
+        setDrawerOpen(false);
+    };
+
+    const handleOpenSaves = () => {
+        setSaveSlots(loadCitySlots());
+        setImportErrors([]);
+        setDrawerMode('saves');
         setDrawerOpen(true);
     };
 
+    const handleSaveCity = (name: string) => {
+        const slot = saveCitySlot(generateId(), name, toSnapshot(gameState));
+        if (!slot) {
+            alert("Failed to save city. Browser storage may be full.");
+            return;
+        }
+        setSaveSlots(loadCitySlots());
+    };
+
+    const handleDeleteSave = (id: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        deleteCitySlot(id);
+        setSaveSlots(loadCitySlots());
+    };
+
+    const handleImportFile = async (file: File) => {
+        const showErrors = (errors: string[]) => {
+            setSaveSlots(loadCitySlots());
+            setImportErrors(errors);
+            setDrawerMode('saves');
+            setDrawerOpen(true);
+        };
+        try {
+            const result = parseCityFile(await file.text());
+            if (!result.city) {
+                showErrors(result.errors);
+                return;
+            }
+            setImportErrors([]);
+            const snapshot = result.replay
+                ? { ...createCitySnapshot(result.city, gameState.tiltShift), ...replayCity(result.replay, result.tickCount), replayLog: result.replay }
+                : createCitySnapshot(result.city, gameState.tiltShift, result.treasury);
+            setPendingLoad({ name: result.city.name, snapshot, warnings: result.warnings });
+        } catch (e) {
+            console.error('City import failed:', e);
+            showErrors([`Could not read the file: ${(e as Error).message}`]);
+        }
+    };
+
+    const handleStartReplay = () => {
+        const { replayLog } = gameState;
+        // Actions logged on the very first day are applied straight away
+        const start = applyDueReplayActions({
+            ...gameState,
+            ...replayStartState(replayLog),
+            selectedDistrictId: null,
+            replayQueue: replayLog.actions,
+            eventLog: [],
+            scenarioResult: null
+        });
+        resetGameState({ ...start, isSimulating: true, statHistory: createStatHistory() });
+        setAdvice(null);
+        setStaged(null);
+        setDrawerOpen(false);
+    };
+
+    const handleStartScenario = (next: Scenario) => {
+        cancelFastForwardRef.current = true;
+        resetGameState(prev => ({
+            ...prev,
+            ...createScenarioSnapshot(next, prev.tiltShift),
+            selectedDistrictId: null,
+            replayQueue: [],
+            isSimulating: true,
+            statHistory: createStatHistory()
+        }));
+        setAdvice(null);
+        setStaged(null);
+        setScenarioPickerOpen(false);
+        setSummaryOpen(false);
+        setDrawerOpen(false);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        const file = e.dataTransfer.files?.[0];
+        if (file) handleImportFile(file);
+    };
+
+    const confirmLoadCity = () => {
+        if (!pendingLoad) return;
+        const { snapshot } = pendingLoad;
+        resetGameState(prev => ({ ...prev, ...snapshot, selectedDistrictId: null, replayQueue: [], statHistory: createStatHistory() }));
+        setAdvice(null);
+        setStaged(null);
+        setPendingLoad(null);
+        setDrawerOpen(false);
+    };
+
     const handleCameraChange = (newCam: CameraState) => {
         setGameState(prev => ({ ...prev, camera: newCam }));
     };
@@ -102,80 +402,358 @@ function App() {
         setGameState(prev => ({ ...prev, camera: { x: 0, y: 0, zoom: 1 } }));
     };
 
-    const getAiClient = () => {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API_KEY not set");
-        return new GoogleGenAI({ apiKey });
+    const handleTogglePlay = () => {
+        setGameState(prev => ({ ...prev, isSimulating: !prev.isSimulating }));
+    };
+
+    const handleStep = () => {
+        setGameState(prev => ({ ...prev, isSimulating: false }));
+        runTicks(1);
+    };
+
+    const handleSpeedChange = (speed: SimSpeed) => {
+        setGameState(prev => ({ ...prev, speed }));
     };
 
-    const findFreeNeighbor = (city: CityGraph, startDistrict: District | undefined): { x: number, y: number } => {
-        if (!startDistrict) return { x: 0, y: 0 }; 
-        const directions = [{ dx: 1, dy: 0 }, { dx: -1, dy: 0 }, { dx: 0, dy: 1 }, { dx: 0, dy: -1 }];
-        const shuffled = directions.sort(() => 0.5 - Math.random());
-        
-        for (const dir of shuffled) {
-            const checkX = startDistrict.gridX + dir.dx;
-            const checkY = startDistrict.gridY + dir.dy;
-            const occupied = city.districts.some(d => d.gridX === checkX && d.gridY === checkY);
-            if (!occupied) return { x: checkX, y: checkY };
+    // Runs days headlessly in worker batches, rendering once per batch rather than once per tick
+    const handleFastForward = async () => {
+        if (isFastForwarding) {
+            cancelFastForwardRef.current = true;
+            return;
         }
-        return { x: startDistrict.gridX + (Math.random() > 0.5 ? 1 : -1), y: startDistrict.gridY + (Math.random() > 0.5 ? 1 : -1) };
+        cancelFastForwardRef.current = false;
+        let done = 0;
+        setFastForward({ done, total: FAST_FORWARD_DAYS });
+
+        // Let any in-flight single tick land first
+        while (isBusy()) await new Promise(resolve => setTimeout(resolve, 10));
+        while (!cancelFastForwardRef.current && done < FAST_FORWARD_DAYS) {
+            // Stop on a scenario's deadline so it is judged that day, not up to a batch later
+            const { scenarioId, scenarioResult, tickCount } = gameStateRef.current;
+            const dayLimit = scenarioResult ? undefined : getScenario(scenarioId)?.dayLimit;
+            const toDeadline = dayLimit !== undefined && tickCount < dayLimit ? dayLimit - tickCount : Infinity;
+            const batch = Math.min(FAST_FORWARD_BATCH, FAST_FORWARD_DAYS - done, toDeadline);
+            await runTicks(batch);
+            done += batch;
+            setFastForward({ done, total: FAST_FORWARD_DAYS });
+        }
+        setFastForward(null);
     };
 
-    const handleGenerateDistrict = async () => {
-        if (!aiInput.trim()) return;
-        setIsGenerating(true);
+    const handleOpenDashboard = () => {
+        setDrawerMode('dashboard');
+        setDrawerOpen(true);
+    };
 
-        try {
-            const ai = getAiClient();
-            const context = `City has ${gameState.city.districts.length} districts. Last district was ${gameState.city.districts[gameState.city.districts.length-1].name}.`;
-            const fullPrompt = GENERATION_PROMPT_TEMPLATE
-                .replace('{CONTEXT_SUMMARY}', context)
-                .replace('{USER_REQUEST}', aiInput);
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: { role: 'user', parts: [{ text: fullPrompt }] },
-                config: { responseMimeType: 'application/json' }
-            });
-
-            const rawJson = response.text || "{}";
-            const newDistrictData = JSON.parse(rawJson);
-            const parent = gameState.selectedDistrictId 
-                ? gameState.city.districts.find(d => d.id === gameState.selectedDistrictId)
-                : gameState.city.districts[gameState.city.districts.length - 1];
-            
-            const { x: newX, y: newY } = findFreeNeighbor(gameState.city, parent);
-            const newDistrict: District = {
-                ...newDistrictData,
-                id: `d-${Date.now()}`,
-                gridX: newX,
-                gridY: newY
-            };
-
-            setGameState(prev => ({
-                ...prev,
-                city: {
-                    ...prev.city,
-                    districts: [...prev.city.districts, newDistrict],
-                    edges: parent ? [...prev.city.edges, { sourceId: parent.id, targetId: newDistrict.id, capacity: 10 }] : prev.city.edges
-                }
+    const handleOpenEvents = () => {
+        setDrawerMode('events');
+        setDrawerOpen(true);
+    };
+
+    const handleOpenBudget = () => {
+        setDrawerMode('budget');
+        setDrawerOpen(true);
+    };
+
+    const handleOpenAdvisor = () => {
+        setDrawerMode('advisor');
+        setDrawerOpen(true);
+    };
+
+    const handleOpenSettings = () => {
+        setDrawerMode('settings');
+        setDrawerOpen(true);
+    };
+
+    const handleAiSettingsChange = (settings: AiSettings) => {
+        setAiSettings(settings);
+        saveAiSettings(settings);
+    };
+
+    const handleDisplaySettingsChange = (settings: DisplaySettings) => {
+        setDisplaySettings(settings);
+        saveDisplaySettings(settings);
+    };
+
+    const handleRulesChange = (rules: SimulationRules) => {
+        runCommand({ type: 'setRules', rules });
+    };
+
+    const selectedDistrict = gameState.city.districts.find(d => d.id === gameState.selectedDistrictId);
+    // New districts attach to the selected district, or else the newest one
+    const buildParent = selectedDistrict ?? gameState.city.districts[gameState.city.districts.length - 1];
+    // Built on demand: it walks every road, too much to redo on every tick
+    const buildContextSummary = () => summarizeCity(gameState.city, buildParent, bannedTypes(scenario));
+    const budget = useMemo(() => dailyBudget(gameState.city), [gameState.city]);
+
+    // Shows a generated district as a ghost and forecasts it on a forked city; nothing is built until Accept
+    const stageDistrict = (action: StagedBuild['action'], prompt: string, repairs: string[]) => {
+        const { city, tickCount, rngState, treasury, events } = gameStateRef.current;
+        const fork = { city, tickCount, rngState, treasury, events };
+        const district = applyCityAction(fork, action).city.districts.find(d => d.id === action.districtId);
+        if (!district) throw new Error('Generated district could not be placed');
+
+        setStaged({ action, district, prompt, repairs, cost: constructionCost(district), forecast: null });
+        setDrawerMode('whatif');
+        setDrawerOpen(true);
+        forecast(fork, action, district.id, WHAT_IF_DAYS)
+            .then(result => setStaged(s => s && s.action === action ? { ...s, forecast: result } : s))
+            .catch(e => console.error("What-if forecast failed", e));
+    };
+
+    const buildSingleDistrict = async (provider: AiProvider, context: string, prompt: string, signal: AbortSignal) => {
+        // Placed where the ghost tile was shown, unless something took the cell in the meantime
+        const cell = findFreeNeighbor(gameState.city, buildParent, createRng(gameState.rngState));
+        setGeneration(g => g && { ...g, cell });
+
+        const { district: blueprint, repairs, errors } = await requestDistrict(provider, context, prompt, {
+            signal,
+            onProgress: ({ name, type }) => setGeneration(g => g && { ...g, name, type })
+        });
+        if (!blueprint) {
+            throw new Error(`Model output unusable after ${MAX_GENERATION_ATTEMPTS} attempts: ${errors.join('; ')}`);
+        }
+        if (!isTypeAllowed(scenario, blueprint.type)) {
+            throw new Error(`${blueprint.name} is ${blueprint.type}, which ${scenario!.name} doesn't allow`);
+        }
+        if (repairs.length) console.warn(`Repaired ${repairs.length} field(s) in generated district:`, repairs);
+        setRepairNotes(repairs);
+
+        stageDistrict({ type: 'build', blueprint, parentId: buildParent?.id ?? null, districtId: `d-${generateId()}`, cell }, prompt, repairs);
+    };
+
+    // Builds each district as it streams in, next to the one it links to so the group stays connected
+    const growCluster = async (provider: AiProvider, context: string, prompt: string, signal: AbortSignal) => {
+        const idsByRef = new Map<string, string>();
+        let lastId = buildParent?.id ?? null;
+        const notes: string[] = [];
+        let funds = gameStateRef.current.treasury;
+
+        for await (const { ref, links, result } of requestDistrictCluster(provider, context, prompt, signal)) {
+            if (!result.district) {
+                notes.push(`Skipped "${ref}": ${result.errors.join('; ')}`);
+                continue;
+            }
+            notes.push(...result.repairs.map(r => `${result.district.name}: ${r}`));
+            if (!isTypeAllowed(scenario, result.district.type)) {
+                notes.push(`Skipped "${result.district.name}": ${result.district.type} districts aren't allowed here`);
+                setRepairNotes([...notes]);
+                continue;
+            }
+            const cost = constructionCost(result.district);
+            if (cost > funds) {
+                notes.push(`Stopped before "${result.district.name}": it costs ${formatMoney(cost)} and ${formatMoney(funds)} is left`);
+                setRepairNotes([...notes]);
+                break;
+            }
+            funds -= cost;
+            setRepairNotes([...notes]);
+
+            const linkedIds = links.map(l => idsByRef.get(l)).filter((id): id is string => !!id);
+            const districtId = `d-${generateId()}`;
+            runCommand({ type: 'build', blueprint: result.district, parentId: linkedIds[0] ?? lastId, districtId });
+            linkedIds.slice(1).forEach(id => runCommand({
+                type: 'connect',
+                road: { sourceId: id, targetId: districtId },
+                capacity: ROAD_TIERS[DEFAULT_ROAD_TIER].capacity
             }));
+            idsByRef.set(ref, districtId);
+            lastId = districtId;
+            setGeneration(g => g && { ...g, built: g.built + 1, name: result.district.name, type: result.district.type });
+        }
+
+        setRepairNotes(notes);
+        if (idsByRef.size === 0) throw new Error(`No usable districts in the cluster: ${notes.join('; ') || 'empty response'}`);
+    };
+
+    const generate = async (prompt: string, mode: GenerationMode) => {
+        if (!prompt.trim() || generation) return;
+        const controller = new AbortController();
+        generationAbort.current = controller;
+        setGeneration({ mode, built: 0, cell: null });
+        setRepairNotes([]);
+
+        try {
+            const provider = createAiProvider(aiSettings);
+            if (mode === 'cluster') {
+                await growCluster(provider, buildContextSummary(), prompt, controller.signal);
+                setDrawerOpen(false);
+            } else {
+                await buildSingleDistrict(provider, buildContextSummary(), prompt, controller.signal);
+            }
             setAiInput('');
-            setDrawerOpen(false); 
 
         } catch (e) {
+            if (isAbortError(e)) return;
             console.error("AI Generation failed", e);
-            alert("Failed to build district. Try again.");
+            alert(`Failed to build district: ${(e as Error).message}`);
         } finally {
-            setIsGenerating(false);
+            if (generationAbort.current === controller) {
+                generationAbort.current = null;
+                setGeneration(null);
+            }
         }
     };
 
-    const selectedDistrict = gameState.city.districts.find(d => d.id === gameState.selectedDistrictId);
+    const handleGenerateDistrict = () => generate(aiInput, generationMode);
+
+    const handleAcceptStaged = () => {
+        if (!staged || staged.cost > gameState.treasury) return;
+        runCommand(staged.action);
+        setStaged(null);
+        setDrawerOpen(false);
+    };
+
+    const handleRejectStaged = () => {
+        setStaged(null);
+        setDrawerOpen(false);
+    };
+
+    const handleRegenerateStaged = () => {
+        if (!staged) return;
+        setStaged(null);
+        generate(staged.prompt, 'single');
+    };
+
+    // Frees the builder straight away; the request itself stops at its next chunk
+    const handleCancelGenerate = () => {
+        generationAbort.current?.abort();
+        generationAbort.current = null;
+        setGeneration(null);
+    };
+
+    const handleAskAdvisor = async () => {
+        setIsAdvising(true);
+        setAdviceError(null);
+        try {
+            const { city, tickCount, rngState, treasury, events } = gameState;
+            setAdvice(await requestAdvice(createAiProvider(aiSettings), { city, tickCount, rngState, treasury, events }, gameState.statHistory, buildContextSummary(), forecast));
+        } catch (e) {
+            console.error("Advisor failed", e);
+            setAdviceError("The advisor couldn't review the city. Try again.");
+        } finally {
+            setIsAdvising(false);
+        }
+    };
+
+    const handleApplyAdvice = (index: number) => {
+        const rec = advice?.recommendations[index];
+        if (!rec || rec.applied) return;
+        const action = recommendationAction(rec, gameState.city);
+        if (!action) {
+            setAdviceError(`"${rec.title}" no longer fits the city: its district is gone.`);
+            return;
+        }
+        const newType = action.type === 'build' ? action.blueprint.type : action.type === 'editDistrict' ? action.edit.type : null;
+        if (newType && !isTypeAllowed(scenario, newType)) {
+            setAdviceError(`"${rec.title}" needs a ${newType} district, which ${scenario!.name} doesn't allow.`);
+            return;
+        }
+        if (action.type === 'build' || action.type === 'editDistrict') {
+            const district = action.type === 'editDistrict' ? gameState.city.districts.find(d => d.id === action.districtId) : undefined;
+            const cost = action.type === 'build' ? constructionCost(action.blueprint) : district ? editCost(district, action.edit) : 0;
+            if (cost > gameState.treasury) {
+                setAdviceError(`"${rec.title}" costs ${formatMoney(cost)}; the treasury only has ${formatMoney(gameState.treasury)}.`);
+                return;
+            }
+        }
+        setAdviceError(null);
+        runCommand(action);
+        setAdvice(a => a && { ...a, recommendations: a.recommendations.map((r, i) => i === index ? { ...r, applied: true } : r) });
+    };
+
+    const renderDrawerContent = () => {
+        switch (drawerMode) {
+            case 'settings':
+                return (
+                    <CitySettingsPanel
+                        aiSettings={aiSettings}
+                        onAiSettingsChange={handleAiSettingsChange}
+                        displaySettings={displaySettings}
+                        onDisplaySettingsChange={handleDisplaySettingsChange}
+                        rules={getCityRules(gameState.city)}
+                        onRulesChange={handleRulesChange}
+                    />
+                );
+            case 'road':
+                return selectedRoad ? (
+                    <RoadPanel city={gameState.city} road={selectedRoad} onTierChange={handleRoadTierChange} onDelete={handleDeleteRoad} />
+                ) : null;
+            case 'saves':
+                return (
+                    <SavesPanel
+                        slots={saveSlots}
+                        defaultName={gameState.city.name}
+                        onSave={handleSaveCity}
+                        onLoad={setPendingLoad}
+                        onDelete={handleDeleteSave}
+                        onExport={() => exportCityFile(gameState.city, gameState.tickCount, gameState.treasury, gameState.replayLog)}
+                        replayLog={gameState.replayLog}
+                        onStartReplay={handleStartReplay}
+                        onImportFile={handleImportFile}
+                        importErrors={importErrors}
+                    />
+                );
+            case 'dashboard':
+                return <DashboardPanel city={gameState.city} history={gameState.statHistory} />;
+            case 'events':
+                return (
+                    <EventLogPanel
+                        city={gameState.city}
+                        log={gameState.eventLog}
+                        active={gameState.events}
+                        onSelectDistrict={(id) => {
+                            setGameState(prev => ({ ...prev, selectedDistrictId: id }));
+                            setDrawerMode('district');
+                        }}
+                    />
+                );
+            case 'budget':
+                return <BudgetPanel city={gameState.city} treasury={gameState.treasury} budget={budget} />;
+            case 'whatif':
+                return (
+                    <WhatIfPanel
+                        city={gameState.city}
+                        staged={staged}
+                        treasury={gameState.treasury}
+                        isGenerating={!!generation}
+                        onAccept={handleAcceptStaged}
+                        onReject={handleRejectStaged}
+                        onRegenerate={handleRegenerateStaged}
+                    />
+                );
+            case 'advisor':
+                return (
+                    <AdvisorPanel
+                        report={advice}
+                        isAdvising={isAdvising}
+                        error={adviceError}
+                        tickCount={gameState.tickCount}
+                        onAsk={handleAskAdvisor}
+                        onApply={handleApplyAdvice}
+                    />
+                );
+            case 'district':
+            default:
+                return selectedDistrict ? (
+                    <DistrictPanel
+                        key={selectedDistrict.id}
+                        city={gameState.city}
+                        district={selectedDistrict}
+                        history={gameState.statHistory.districts[selectedDistrict.id]}
+                        onEdit={(edit) => handleEditDistrict(selectedDistrict.id, edit)}
+                        allowedTypes={scenario?.allowedTypes}
+                        treasury={gameState.treasury}
+                        onDemolish={() => setPendingDemolish(selectedDistrict)}
+                    />
+                ) : (
+                    <p>Select a district to see details.</p>
+                );
+        }
+    };
 
     return (
-        <div className="miniature-builder-app">
+        <div className="miniature-builder-app" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
             <CityCanvas 
                 city={gameState.city} 
                 tiltShift={gameState.tiltShift} 
@@ -183,6 +761,20 @@ function App() {
                 onCameraChange={handleCameraChange}
                 onDistrictSelect={handleSelectDistrict}
                 selectedId={gameState.selectedDistrictId}
+                isRoadTool={!!roadTool}
+                roadStartId={roadTool?.startId ?? null}
+                selectedRoad={drawerOpen && drawerMode === 'road' ? selectedRoad : null}
+                onRoadSelect={handleSelectRoad}
+                onDistrictMove={handleMoveDistrict}
+                ghost={generation?.cell ? { ...generation.cell, type: generation.type } : null}
+                staged={staged ? { district: staged.district, parentId: staged.action.parentId } : null}
+                events={gameState.events}
+                overlay={overlay}
+                animateTraffic={displaySettings.animateTraffic}
+                onStagedSelect={() => {
+                    setDrawerMode('whatif');
+                    setDrawerOpen(true);
+                }}
             />
 
             <GameUI 
@@ -191,51 +783,102 @@ function App() {
                 aiInput={aiInput}
                 setAiInput={setAiInput}
                 onGenerate={handleGenerateDistrict}
-                isGenerating={isGenerating}
+                generation={generation}
+                getContextSummary={buildContextSummary}
+                onCancelGenerate={handleCancelGenerate}
+                generationMode={generationMode}
+                onGenerationModeChange={setGenerationMode}
+                repairNotes={repairNotes}
+                onDismissRepairNotes={() => setRepairNotes([])}
                 onResetCamera={handleResetCamera}
+                onOpenSaves={handleOpenSaves}
+                onOpenSettings={handleOpenSettings}
+                onOpenDashboard={handleOpenDashboard}
+                onOpenAdvisor={handleOpenAdvisor}
+                onOpenBudget={handleOpenBudget}
+                onOpenEvents={handleOpenEvents}
+                activeEvents={gameState.events.length}
+                overlay={overlay}
+                onOverlayChange={setOverlay}
+                scenario={scenario}
+                goals={goals}
+                scenarioResult={gameState.scenarioResult}
+                onOpenScenarios={() => setScenarioPickerOpen(true)}
+                onOpenSummary={() => setSummaryOpen(true)}
+                treasury={gameState.treasury}
+                dailyNet={budget.net}
+                isSimulating={gameState.isSimulating}
+                speed={gameState.speed}
+                fastForward={fastForward}
+                onTogglePlay={handleTogglePlay}
+                onStep={handleStep}
+                onSpeedChange={handleSpeedChange}
+                onFastForward={handleFastForward}
+                roadTool={roadTool}
+                roadNotice={roadNotice}
+                onToggleRoadTool={handleToggleRoadTool}
+                onRoadTierChange={(tier) => roadTool && setRoadTool({ ...roadTool, tier })}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={undo}
+                onRedo={redo}
             />
 
             <SideDrawer 
                 isOpen={drawerOpen} 
                 onClose={() => setDrawerOpen(false)} 
-                title={selectedDistrict?.name || 'District Info'}
+                title={drawerMode === 'district' ? (selectedDistrict?.name || 'District Info') : DRAWER_TITLES[drawerMode]}
             >
-                {selectedDistrict ? (
-                    <div className="district-detail">
-                        <div className={`badge type ${selectedDistrict.type}`}>{selectedDistrict.type.toUpperCase()}</div>
-                        <p className="desc">{selectedDistrict.description}</p>
-                        
-                        <div className="stat-grid">
-                            <StatBar label="Happiness" value={selectedDistrict.stats.happiness} color="#fbbf24" icon="😊" />
-                            <StatBar label="Pollution" value={selectedDistrict.stats.pollution} color="#71717a" icon="☁️" />
-                            <StatBar label="Traffic" value={selectedDistrict.stats.trafficFlow} color="#ef4444" icon="🚗" />
-                            <StatBar label="Economy" value={selectedDistrict.stats.economy} color="#10b981" icon="💰" />
-                        </div>
-
-                        <div className="coords-meta">
-                            Grid: {selectedDistrict.gridX}, {selectedDistrict.gridY}
-                        </div>
-                    </div>
-                ) : (
-                    <p>Select a district to see details.</p>
-                )}
+                {renderDrawerContent()}
             </SideDrawer>
+
+            <ConfirmationModal
+                isOpen={!!pendingLoad}
+                title="Load City?"
+                message={`Replace the current city with "${pendingLoad?.name}"? Unsaved changes will be lost.${pendingLoad?.warnings?.length ? ` Note: ${pendingLoad.warnings.join(' ')}.` : ''}`}
+                confirmText="Load"
+                cancelText="Cancel"
+                onConfirm={confirmLoadCity}
+                onCancel={() => setPendingLoad(null)}
+            />
+
+            <ConfirmationModal
+                isOpen={!!pendingDemolish}
+                title="Demolish District?"
+                message={`Demolish "${pendingDemolish?.name}"? Its roads will be removed too.`}
+                confirmText="Demolish"
+                cancelText="Cancel"
+                onConfirm={confirmDemolish}
+                onCancel={() => setPendingDemolish(null)}
+            />
+
+            <ScenarioPicker
+                isOpen={scenarioPickerOpen}
+                currentId={gameState.scenarioId}
+                onStart={handleStartScenario}
+                onClose={() => setScenarioPickerOpen(false)}
+            />
+
+            {scenario && gameState.scenarioResult && (
+                <ScenarioSummary
+                    isOpen={summaryOpen}
+                    scenario={scenario}
+                    result={gameState.scenarioResult}
+                    city={gameState.city}
+                    treasury={gameState.treasury}
+                    goals={goals}
+                    eventCount={gameState.eventLog.length}
+                    onKeepPlaying={() => setSummaryOpen(false)}
+                    onNewScenario={() => {
+                        setSummaryOpen(false);
+                        setScenarioPickerOpen(true);
+                    }}
+                />
+            )}
         </div>
     );
 }
 
-// Simple internal component for the drawer stats
-const StatBar = ({ label, value, color, icon }: { label: string, value: number, color: string, icon: string }) => (
-    <div className="stat-row">
-        <span className="stat-icon">{icon}</span>
-        <label>{label}</label>
-        <div className="bar-container">
-            <div className="bar-fill" style={{ width: `${value}%`, backgroundColor: color }}></div>
-        </div>
-        <span className="stat-value">{Math.round(value)}</span>
-    </div>
-);
-
 const rootElement = document.getElementById('root');
 if (rootElement) {
   const root = ReactDOM.createRoot(rootElement);
@@ -8,6 +8,8 @@
 
 export type DistrictType = 'residential' | 'commercial' | 'industrial' | 'park' | 'civic';
 
+export type BuildingType = 'highrise' | 'house' | 'factory' | 'shop';
+
 export interface DistrictStats {
     population: number;
     trafficFlow: number; // 0-100
@@ -17,8 +19,11 @@ export interface DistrictStats {
     transitScore: number; // 0-100 (affects traffic sharing)
 }
 
+/** Stat shown as a heatmap over the city; null shows the normal district colours. */
+export type OverlayMode = keyof DistrictStats | null;
+
 export interface DistrictFeatures {
-    buildings: { type: 'highrise' | 'house' | 'factory' | 'shop'; count: number; color: string }[];
+    buildings: { type: BuildingType; count: number; color: string }[];
     greenery: number; // 0-1 density
     water: boolean;
 }
@@ -34,16 +39,68 @@ export interface District {
     description: string;
 }
 
+/** A district as described by the model, before it is given an id and a grid cell. */
+export type DistrictBlueprint = Omit<District, 'id' | 'gridX' | 'gridY'>;
+
+/** The parts of a district the player can edit by hand; stats stay with the simulation. */
+export type DistrictEdit = Pick<District, 'name' | 'description' | 'type' | 'visuals'>;
+
 export interface Edge {
     sourceId: string;
     targetId: string;
     capacity: number; // Affects how much stats bleed across
 }
 
+/** Roads are undirected: a ref matches an edge in either direction. */
+export interface RoadRef {
+    sourceId: string;
+    targetId: string;
+}
+
+export type RoadTier = 'lane' | 'avenue' | 'highway';
+
 export interface CityGraph {
     districts: District[];
     edges: Edge[];
     name: string;
+    rules?: SimulationRules; // Falls back to the Realistic preset when absent
+}
+
+// Simulation rules
+
+/** Effects applied to every district of a type each tick, regardless of neighbours. */
+export interface DistrictTypeRules {
+    pollution: number; // Added per tick
+    happiness: number; // Flat bonus (negative for a penalty)
+    economy: number;   // Drift per tick
+}
+
+/** What a district gets from each linked neighbour of a given type. */
+export interface InteractionRule {
+    economy: number;   // Fraction of the neighbour's economy gained per tick
+    happiness: number; // Flat bonus per neighbour
+}
+
+export interface SimulationRules {
+    trafficCoupling: number;    // Fraction of each neighbour's traffic that spills over
+    pollutionSpread: number;    // Fraction of each neighbour's pollution that drifts in
+    trafficDecay: number;       // Multiplier applied to traffic each tick
+    pollutionDecay: number;     // Multiplier applied to pollution each tick
+    trafficPerResident: number; // Traffic generated per resident
+    greeneryCleanup: number;    // Pollution removed per tick at full greenery
+    referenceCapacity: number;  // Capacity of a standard road; pollution and trade weights are relative to it
+    transitDiversion: number;   // Share of road traffic taken off the roads at transit score 100
+    congestionPenalty: number;  // Happiness lost per unit of traffic a road couldn't carry
+    baseHappiness: number;      // Happiness of a district with no traffic, pollution, economy or greenery
+    trafficUnhappiness: number; // Happiness lost per point of traffic
+    pollutionUnhappiness: number; // Happiness lost per point of pollution
+    economyHappiness: number;   // Happiness gained per point of economy
+    greeneryHappiness: number;  // Happiness gained at full greenery
+    growthRate: number;         // Share of residents born (or leaving) per tick at the best (or worst) conditions
+    migrationRate: number;      // Share of residents who move per tick across a standard road, per 100 points of attractiveness gap
+    base: Record<DistrictType, DistrictTypeRules>;
+    /** interactions[self][neighbour] */
+    interactions: Record<DistrictType, Record<DistrictType, InteractionRule>>;
 }
 
 export interface TiltShiftParams {
@@ -58,13 +115,228 @@ export interface CameraState {
     zoom: number;
 }
 
-export interface GameState {
+// Deterministic replay
+
+export type CityAction =
+    // districtId lets later actions refer to it; cell is a preferred spot (e.g. the previewed one), ignored if taken
+    | { type: 'build'; blueprint: DistrictBlueprint; parentId: string | null; districtId?: string; cell?: { x: number; y: number } }
+    | { type: 'setRules'; rules: SimulationRules }
+    | { type: 'connect'; road: RoadRef; capacity: number }
+    | { type: 'disconnect'; road: RoadRef }
+    | { type: 'setRoadCapacity'; road: RoadRef; capacity: number }
+    | { type: 'move'; districtId: string; gridX: number; gridY: number }
+    | { type: 'editDistrict'; districtId: string; edit: DistrictEdit; cost?: number } // Overrides editCost; negative refunds an undone edit
+    // refund/cost let undoing a build give its construction cost back, and redoing it charge again
+    | { type: 'demolish'; districtId: string; refund?: number }
+    | { type: 'restoreDistrict'; district: District; edges: Edge[]; cost?: number }; // Undo of a demolish
+
+export interface LoggedAction {
+    tick: number; // tickCount at the moment the action was applied
+    action: CityAction;
+}
+
+/** Everything needed to rebuild a city tick for tick: where it started and what was done to it. */
+export interface ReplayLog {
+    seed: number;
+    startTick: number;
+    initialCity: CityGraph;
+    startTreasury?: number; // Absent in logs from before the budget; STARTING_TREASURY then
+    actions: LoggedAction[];
+}
+
+// Stat history
+
+export interface StatSample {
+    tick: number;
+    stats: DistrictStats;
+}
+
+/** Bounded per-tick series, newest last. `city` holds aggregates (total population, average stats). */
+export interface StatHistory {
+    city: StatSample[];
+    districts: Record<string, StatSample[]>;
+}
+
+// Random events
+
+export type CityEventType = 'fire' | 'flood' | 'industrialAccident' | 'festival' | 'boom';
+
+/** Something that happened to a district; its effects last from startTick until endTick. */
+export interface CityEvent {
+    id: string;
+    type: CityEventType;
+    districtId: string;
+    districtName: string; // As it was at the time, so the log still reads right after a rename or demolish
+    startTick: number;
+    endTick: number;
+    /** What it added to each district's stats today, after clamping; taken back off before the next tick. */
+    applied?: Record<string, Partial<DistrictStats>>;
+}
+
+// Scenarios
+
+export type GoalMetric = keyof DistrictStats | 'treasury' | 'districts';
+
+export interface ScenarioGoal {
+    metric: GoalMetric; // Population is the city total; other stats are city averages
+    comparison: 'atLeast' | 'atMost';
+    target: number;
+}
+
+/** A starting city with constraints and goals; all goals must hold on the same day to win. */
+export interface Scenario {
+    id: string;
+    name: string;
+    description: string;
     city: CityGraph;
+    budget: number; // Starting treasury
+    allowedTypes?: DistrictType[]; // Every type when absent
+    dayLimit?: number; // Lost if the goals aren't met by this day; no deadline when absent
+    goals: ScenarioGoal[]; // None for a free-play sandbox
+}
+
+export interface GoalProgress {
+    goal: ScenarioGoal;
+    value: number;
+    met: boolean;
+}
+
+export type ScenarioOutcome = 'won' | 'lost';
+
+export interface ScenarioResult {
+    outcome: ScenarioOutcome;
+    tick: number;
+}
+
+/** The part of GameState that the simulation and city actions read and write. */
+export interface SimState {
+    city: CityGraph;
+    tickCount: number;
+    rngState: number;
+    treasury: number; // May go negative: upkeep is still paid when the city is broke
+    events: CityEvent[]; // Active now; each applies its effects every tick until it ends
+}
+
+/** One day's income and spending, broken down for the budget panel. */
+export interface DailyBudget {
+    taxes: Record<DistrictType, number>;
+    upkeep: Record<DistrictType, number>;
+    roads: number; // Upkeep of every road, scaled by capacity
+    income: number;
+    expenses: number;
+    net: number;
+}
+
+export type SimSpeed = 1 | 2 | 4;
+
+export type GenerationMode = 'single' | 'cluster'; // One district, or a connected group from one prompt
+
+/** An AI request in flight, as shown in the HUD. */
+export interface GenerationProgress {
+    mode: GenerationMode;
+    name?: string; // Of the district being drafted (single) or the last one built (cluster)
+    type?: DistrictType;
+    built: number; // Districts placed so far; clusters build as they stream
+    cell: { x: number; y: number } | null; // Where a single district will go, shown as a ghost tile
+}
+
+export interface GameState extends SimState {
     selectedDistrictId: string | null;
     isSimulating: boolean;
-    tickCount: number;
+    speed: SimSpeed;
     tiltShift: TiltShiftParams;
     camera: CameraState;
+    replayLog: ReplayLog;
+    replayQueue: LoggedAction[]; // Actions still to re-apply during a live replay
+    statHistory: StatHistory; // Not persisted; rebuilt as the simulation runs
+    eventLog: CityEvent[]; // Every event so far, oldest first, bounded
+    scenarioId: string | null; // null for cities imported or saved before scenarios
+    scenarioResult: ScenarioResult | null; // Set once the scenario is won or lost
+}
+
+// City persistence
+
+/** The slice of GameState that survives a reload. */
+export interface CitySnapshot {
+    city: CityGraph;
+    tickCount: number;
+    camera: CameraState;
+    tiltShift: TiltShiftParams;
+    rngState: number;
+    treasury: number;
+    events: CityEvent[];
+    eventLog: CityEvent[];
+    scenarioId: string | null;
+    scenarioResult: ScenarioResult | null;
+    replayLog: ReplayLog;
+}
+
+export interface CitySaveSlot {
+    id: string;
+    name: string;
+    savedAt: number;
+    isAutosave: boolean;
+    schemaVersion: number;
+    snapshot: CitySnapshot;
+}
+
+// AI Providers
+
+export type AiProviderId = 'gemini' | 'mock';
+
+export interface AiSettings {
+    provider: AiProviderId;
+    model: string;
+}
+
+/** Per-browser display preferences, kept apart from any one city. */
+export interface DisplaySettings {
+    animateTraffic: boolean; // Off draws vehicles standing still, for slower machines
+}
+
+// AI advisor
+
+/** Fields an editDistrict recommendation sets; everything else is left as the district has it. */
+export interface DistrictChanges {
+    type?: DistrictType;
+    greenery?: number;
+    water?: boolean;
+}
+
+export interface Recommendation {
+    title: string;
+    reason: string;
+    action: CityAction; // As forecast; see `changes` for edits
+    changes?: DistrictChanges; // For editDistrict: re-applied to the district as it is when the advice is taken
+    impact: DistrictStats; // Forecast change in city totals/averages versus doing nothing
+    applied?: boolean;
+}
+
+export interface AdvisorReport {
+    summary: string;
+    recommendations: Recommendation[];
+    skipped: string[]; // Suggestions dropped because their action didn't fit the city
+    tick: number; // Day the advice (and its forecasts) was produced
+}
+
+// What-if preview
+
+/** Stats after N simulated days without and with a staged district. */
+export interface WhatIfForecast {
+    days: number;
+    treasury: { before: number; after: number };
+    city: { before: DistrictStats; after: DistrictStats };
+    neighbors: { id: string; before: DistrictStats; after: DistrictStats }[];
+    district: DistrictStats | null; // The staged district's own stats at the end
+}
+
+export interface StagedBuild {
+    action: Extract<CityAction, { type: 'build' }>;
+    district: District; // As it would be placed, for the ghost and the drawer
+    prompt: string; // Kept for Regenerate
+    repairs: string[];
+    cost: number; // Charged to the treasury on Accept
+    forecast: WhatIfForecast | null; // null while the fork is still simulating
 }
 
 // UI Builder Types (Legacy support)
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AdvisorReport, CityAction, CityGraph, District, DistrictChanges, DistrictEdit, DistrictStats, Recommendation, RoadTier, SimState, StatHistory, WhatIfForecast } from '../types';
+import { DISTRICT_TYPES, ROAD_TIERS } from '../constants';
+import { AiProvider } from './aiProvider';
+import { DISTRICT_SCHEMA, JsonRequestOptions, requestValidatedJson } from './districtGenerator';
+import { normalizeGeneratedDistrict } from './districtSchema';
+import { connectError, findRoad, roadTierOf } from './roads';
+import { STAT_KEYS } from './statHistory';
+
+export const ADVISOR_PROMPT_TEMPLATE = `
+You are an urban planning advisor for a small simulated city. Diagnose its biggest problems
+and recommend up to {MAX_RECOMMENDATIONS} concrete actions, most important first.
+City summary:
+{CONTEXT_SUMMARY}
+
+City data (districts with ids and stats, roads with tiers, and the recent city-wide trend):
+{CITY_DATA}
+
+Return STRICT JSON:
+{
+  "summary": "One or two sentences on the state of the city",
+  "recommendations": [
+    {
+      "title": "Short imperative, e.g. Add a park next to Steelworks",
+      "reason": "Why, citing the numbers",
+      "action": ONE of
+        { "type": "build", "nearId": "existing district id", "district": DISTRICT }
+        { "type": "connect", "sourceId": "id", "targetId": "id", "tier": "lane" | "avenue" | "highway" }
+        { "type": "setRoadTier", "sourceId": "id", "targetId": "id", "tier": "lane" | "avenue" | "highway" }
+        { "type": "editDistrict", "districtId": "id", "changes": { "type"?: district type, "greenery"?: 0.0-1.0, "water"?: boolean } }
+        { "type": "demolish", "districtId": "id" }
+    }
+  ]
+}
+where DISTRICT is:
+${DISTRICT_SCHEMA}
+Only use ids that appear in the city data.
+`;
+
+export const MAX_RECOMMENDATIONS = 5;
+/** Days simulated with and without each recommendation to forecast its effect. */
+export const FORECAST_DAYS = 20;
+
+const TREND_SAMPLES = 6;
+const TREND_SPACING = 10; // Days between trend samples
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const roundStats = (stats: DistrictStats) =>
+    Object.fromEntries(STAT_KEYS.map(k => [k, Math.round(stats[k])])) as Record<keyof DistrictStats, number>;
+
+/** Compact JSON of the city and its recent trend, sent to the model as the advisor's data. */
+export const advisorBriefing = (city: CityGraph, history: StatHistory): string => {
+    const trend = history.city
+        .filter((_, i, all) => (all.length - 1 - i) % TREND_SPACING === 0)
+        .slice(-TREND_SAMPLES)
+        .map(s => ({ day: s.tick, ...roundStats(s.stats) }));
+    return JSON.stringify({
+        districts: city.districts.map(d => ({ id: d.id, name: d.name, type: d.type, greenery: d.visuals.greenery, stats: roundStats(d.stats) })),
+        roads: city.edges.map(e => ({ sourceId: e.sourceId, targetId: e.targetId, tier: roadTierOf(e.capacity) })),
+        trend
+    });
+};
+
+const parseTier = (tier: unknown): RoadTier | null => typeof tier === 'string' && tier in ROAD_TIERS ? tier as RoadTier : null;
+
+const parseChanges = (raw: unknown, district: District): DistrictChanges => {
+    const changes: DistrictChanges = {};
+    if (!isObject(raw)) return changes;
+    if (DISTRICT_TYPES.includes(raw.type) && raw.type !== district.type) changes.type = raw.type;
+    if (typeof raw.greenery === 'number') {
+        const greenery = Math.max(0, Math.min(1, raw.greenery));
+        if (greenery !== district.visuals.greenery) changes.greenery = greenery;
+    }
+    if (typeof raw.water === 'boolean' && raw.water !== district.visuals.water) changes.water = raw.water;
+    return changes;
+};
+
+/** The edit that makes `changes` to the district, keeping the rest of it as it is now. */
+export const applyDistrictChanges = (district: District, changes: DistrictChanges): DistrictEdit => {
+    const { name, description, type, visuals } = district;
+    return {
+        name,
+        description,
+        type: changes.type ?? type,
+        visuals: { ...visuals, greenery: changes.greenery ?? visuals.greenery, water: changes.water ?? visuals.water }
+    };
+};
+
+/**
+ * Turns one of the model's suggested actions into a CityAction for this city,
+ * or explains why it can't be applied.
+ */
+export const toCityAction = (raw: unknown, city: CityGraph): CityAction | string => {
+    if (!isObject(raw)) return 'action must be an object';
+    const exists = (id: unknown) => typeof id === 'string' && city.districts.some(d => d.id === id);
+
+    switch (raw.type) {
+        case 'build': {
+            if (!exists(raw.nearId)) return `build: unknown district "${raw.nearId}"`;
+            const { district, errors } = normalizeGeneratedDistrict(raw.district);
+            return district ? { type: 'build', blueprint: district, parentId: raw.nearId } : `build: ${errors.join('; ')}`;
+        }
+        case 'connect':
+        case 'setRoadTier': {
+            const tier = parseTier(raw.tier);
+            if (!tier) return `${raw.type}: unknown road tier "${raw.tier}"`;
+            const road = { sourceId: raw.sourceId, targetId: raw.targetId };
+            if (raw.type === 'connect') {
+                const error = connectError(city, road);
+                return error ? `connect: ${error}` : { type: 'connect', road, capacity: ROAD_TIERS[tier].capacity };
+            }
+            const edge = findRoad(city, road);
+            if (!edge) return `setRoadTier: no road between "${raw.sourceId}" and "${raw.targetId}"`;
+            if (edge.capacity === ROAD_TIERS[tier].capacity) return `setRoadTier: road is already a ${tier}`;
+            return { type: 'setRoadCapacity', road, capacity: ROAD_TIERS[tier].capacity };
+        }
+        case 'editDistrict': {
+            const district = city.districts.find(d => d.id === raw.districtId);
+            if (!district) return `editDistrict: unknown district "${raw.districtId}"`;
+            const changes = parseChanges(raw.changes, district);
+            if (Object.keys(changes).length === 0) return 'editDistrict: changes nothing';
+            return { type: 'editDistrict', districtId: district.id, edit: applyDistrictChanges(district, changes) };
+        }
+        case 'demolish':
+            return exists(raw.districtId) ? { type: 'demolish', districtId: raw.districtId } : `demolish: unknown district "${raw.districtId}"`;
+        default:
+            return `unknown action type "${raw.type}"`;
+    }
+};
+
+/** Runs a with/without fork of the city, e.g. the simulation worker's `forecast`. */
+export type ForecastRunner = (state: SimState, action: CityAction, districtId: string, days: number) => Promise<WhatIfForecast>;
+
+/**
+ * How the city's totals and averages differ at the end of a forecast with the
+ * action applied, compared to leaving the city alone (see forkSimulation).
+ */
+export const forecastImpact = ({ city }: WhatIfForecast): DistrictStats =>
+    Object.fromEntries(STAT_KEYS.map(k => [k, city.after[k] - city.before[k]])) as Record<keyof DistrictStats, number>;
+
+type ParsedAdvice = Omit<AdvisorReport, 'tick' | 'recommendations'> & { recommendations: Omit<Recommendation, 'impact'>[] };
+
+/**
+ * Keeps the recommendations whose actions fit the city. The response as a whole
+ * is only rejected (and retried) if it's malformed or it made suggestions and
+ * none of them are usable. An empty list is a city with nothing to fix.
+ */
+export const parseAdvice = (raw: unknown, city: CityGraph): { result: ParsedAdvice; errors: string[] } => {
+    const result: ParsedAdvice = { summary: '', recommendations: [], skipped: [] };
+    if (!isObject(raw)) return { result, errors: ['Response must be a JSON object'] };
+    if (!Array.isArray(raw.recommendations)) return { result, errors: ['"recommendations" must be an array'] };
+
+    result.summary = typeof raw.summary === 'string' ? raw.summary.trim() : '';
+    raw.recommendations.slice(0, MAX_RECOMMENDATIONS).forEach((rec: unknown, i: number) => {
+        const fields = isObject(rec) ? rec : {};
+        const title = typeof fields.title === 'string' && fields.title.trim() ? fields.title.trim() : `Recommendation ${i + 1}`;
+        const action = toCityAction(fields.action, city);
+        if (typeof action === 'string') {
+            result.skipped.push(`${title}: ${action}`);
+            return;
+        }
+        const reason = typeof fields.reason === 'string' ? fields.reason.trim() : '';
+        if (action.type === 'editDistrict') {
+            const district = city.districts.find(d => d.id === action.districtId)!;
+            result.recommendations.push({ title, reason, action, changes: parseChanges(fields.action.changes, district) });
+        } else {
+            result.recommendations.push({ title, reason, action });
+        }
+    });
+
+    const errors = result.recommendations.length === 0 && result.skipped.length > 0
+        ? ['No usable recommendations', ...result.skipped.map(s => `recommendation ${s}`)]
+        : [];
+    return { result, errors };
+};
+
+/**
+ * Asks the model to review the city and forecasts each recommendation it makes.
+ * Throws if the response stays malformed or every suggestion in it is unusable.
+ */
+export const requestAdvice = async (
+    provider: AiProvider,
+    state: SimState,
+    history: StatHistory,
+    context: string,
+    forecast: ForecastRunner,
+    options: JsonRequestOptions = {}
+): Promise<AdvisorReport> => {
+    const data = advisorBriefing(state.city, history);
+    const prompt = ADVISOR_PROMPT_TEMPLATE
+        .replace('{MAX_RECOMMENDATIONS}', String(MAX_RECOMMENDATIONS))
+        .replace('{CONTEXT_SUMMARY}', context)
+        .replace('{CITY_DATA}', data);
+    const { result, errors } = await requestValidatedJson(provider, {
+        task: 'advice',
+        input: data,
+        prompt,
+        parse: raw => parseAdvice(raw, state.city)
+    }, options);
+    if (!result || errors.length > 0) throw new Error(`Advisor gave no usable recommendations: ${errors.join('; ')}`);
+
+    // No district to single out, so the forecasts only compare city-wide figures
+    const impacts = await Promise.all(result.recommendations.map(r => forecast(state, r.action, '', FORECAST_DAYS)));
+    return {
+        ...result,
+        recommendations: result.recommendations.map((r, i) => ({ ...r, impact: forecastImpact(impacts[i]) })),
+        tick: state.tickCount
+    };
+};
+
+/**
+ * The action to run when the player takes a recommendation now. Edits are rebuilt
+ * from the district's current state, so changes made since the advice survive.
+ */
+export const recommendationAction = (rec: Recommendation, city: CityGraph): CityAction | null => {
+    if (rec.action.type !== 'editDistrict' || !rec.changes) return rec.action;
+    const { districtId } = rec.action;
+    const district = city.districts.find(d => d.id === districtId);
+    return district ? { type: 'editDistrict', districtId, edit: applyDistrictChanges(district, rec.changes) } : null;
+};
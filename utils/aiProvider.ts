@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { AiProviderId, AiSettings } from '../types';
+import { createMockProvider } from './mockProvider';
+
+export type AiTask = 'district' | 'cluster' | 'advice';
+
+export interface AiMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface AiRequest {
+    /** What the call is for, so offline providers can answer without parsing the prompt. */
+    task: AiTask;
+    /** The user's own words, before they were templated into the prompt (for advice, the city data JSON). */
+    input: string;
+    messages: AiMessage[];
+    /** Ask for a bare JSON response body. */
+    json?: boolean;
+    /** Stops a stream at the next chunk once aborted. */
+    signal?: AbortSignal;
+}
+
+export interface AiProvider {
+    id: AiProviderId;
+    model: string;
+    generate: (request: AiRequest) => Promise<string>;
+    /** Same as `generate`, but yields the response text in chunks as it arrives. */
+    stream: (request: AiRequest) => AsyncGenerator<{ text: string }>;
+}
+
+export const GEMINI_MODELS = ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'];
+export const MOCK_MODEL = 'offline-v1';
+
+export const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+    gemini: 'Google Gemini',
+    mock: 'Offline (mock)'
+};
+
+export const hasGeminiKey = (): boolean => !!process.env.API_KEY;
+
+/**
+ * Gemini by default; falls back to the offline provider when no API key is configured
+ * so the builder still works in CI and demos.
+ */
+export const DEFAULT_AI_SETTINGS: AiSettings = hasGeminiKey()
+    ? { provider: 'gemini', model: GEMINI_MODELS[0] }
+    : { provider: 'mock', model: MOCK_MODEL };
+
+const createGeminiProvider = (model: string): AiProvider => {
+    let client: GoogleGenAI | null = null;
+    const getClient = () => {
+        const apiKey = process.env.API_KEY;
+        if (!apiKey) throw new Error("API_KEY not set");
+        client ??= new GoogleGenAI({ apiKey });
+        return client;
+    };
+
+    const toParams = ({ messages, json }: AiRequest) => ({
+        model,
+        contents: messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+        config: json ? { responseMimeType: 'application/json' } : undefined
+    });
+
+    return {
+        id: 'gemini',
+        model,
+        generate: async (request) => {
+            const response = await getClient().models.generateContent(toParams(request));
+            return response.text || '';
+        },
+        stream: async function* (request) {
+            const response = await getClient().models.generateContentStream(toParams(request));
+            for await (const chunk of response) {
+                if (request.signal?.aborted) return;
+                yield { text: chunk.text || '' };
+            }
+        }
+    };
+};
+
+export const createAiProvider = (settings: AiSettings): AiProvider => {
+    switch (settings.provider) {
+        case 'mock':
+            return createMockProvider(settings.model || MOCK_MODEL);
+        case 'gemini':
+        default:
+            return createGeminiProvider(settings.model || GEMINI_MODELS[0]);
+    }
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BuildingType, CityGraph, DailyBudget, District, DistrictType } from '../types';
+import { DISTRICT_TYPES } from '../constants';
+
+export const STARTING_TREASURY = 20000;
+
+/** Tax paid per resident per day at economy 100; scales linearly with economy. */
+export const TAX_PER_RESIDENT = 0.05;
+
+/** Daily running cost of each district, by type. */
+export const DISTRICT_UPKEEP: Record<DistrictType, number> = {
+    residential: 20,
+    commercial: 25,
+    industrial: 40,
+    park: 15,
+    civic: 50
+};
+
+/** Daily upkeep per unit of road capacity, so a highway costs four times a lane. */
+export const ROAD_UPKEEP_PER_CAPACITY = 0.5;
+
+// Construction: a base price for the plot and services, plus each building on it
+const BASE_CONSTRUCTION_COST: Record<DistrictType, number> = {
+    residential: 800,
+    commercial: 1000,
+    industrial: 1200,
+    park: 500,
+    civic: 1500
+};
+
+const BUILDING_COST: Record<BuildingType, number> = {
+    highrise: 400,
+    house: 100,
+    factory: 350,
+    shop: 150
+};
+
+const byType = (value: (type: DistrictType) => number) =>
+    Object.fromEntries(DISTRICT_TYPES.map(t => [t, value(t)])) as Record<DistrictType, number>;
+
+/** What building a district costs, scaled by the buildings on it. */
+export const constructionCost = (district: Pick<District, 'type' | 'visuals'>): number =>
+    district.visuals.buildings.reduce((sum, b) => sum + BUILDING_COST[b.type] * b.count, BASE_CONSTRUCTION_COST[district.type]);
+
+/**
+ * What an edit costs: the rise in construction cost. Taking buildings away
+ * credits nothing, since the city may never have paid for them.
+ */
+export const editCost = (district: Pick<District, 'type' | 'visuals'>, edit: Pick<District, 'type' | 'visuals'>): number =>
+    Math.max(0, constructionCost(edit) - constructionCost(district));
+
+/** Taxes and upkeep for one day of the city as it stands. */
+export const dailyBudget = (city: CityGraph): DailyBudget => {
+    const taxes = byType(() => 0);
+    const upkeep = byType(() => 0);
+    city.districts.forEach(d => {
+        taxes[d.type] += d.stats.population * TAX_PER_RESIDENT * (d.stats.economy / 100);
+        upkeep[d.type] += DISTRICT_UPKEEP[d.type];
+    });
+    const roads = city.edges.reduce((sum, e) => sum + e.capacity * ROAD_UPKEEP_PER_CAPACITY, 0);
+
+    const sum = (values: Record<DistrictType, number>) => DISTRICT_TYPES.reduce((total, t) => total + values[t], 0);
+    const income = sum(taxes);
+    const expenses = sum(upkeep) + roads;
+    return { taxes, upkeep, roads, income, expenses, net: income - expenses };
+};
+
+export const formatMoney = (amount: number): string =>
+    `${amount < 0 ? '-' : ''}$${Math.abs(Math.round(amount)).toLocaleString('en-US')}`;
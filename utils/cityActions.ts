@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityAction, CityGraph, District, LoggedAction, ReplayLog, SimState } from '../types';
+import { AdjacencyIndex, buildAdjacencyIndex, runSimulationTick } from './simulation';
+import { findFreeNeighbor, findNearestFreeCell, isCellOccupied } from './placement';
+import { connectError, findRoad, isSameRoad } from './roads';
+import { DEFAULT_RULES } from './simulationRules';
+import { DEFAULT_ROAD_TIER, ROAD_TIERS } from '../constants';
+import { createRng, Rng } from './rng';
+import { constructionCost, dailyBudget, editCost, STARTING_TREASURY } from './budget';
+import { applyEventEffects, removeEventEffects, rollEvents } from './events';
+
+const newDistrictId = (city: CityGraph, rng: Rng): string => {
+    let id: string;
+    do {
+        id = `d-${rng.int(0x7fffffff).toString(36)}`;
+    } while (city.districts.some(d => d.id === id));
+    return id;
+};
+
+/**
+ * Advances the simulation by one day, drawing all randomness from the state's rng:
+ * runs the stats, starts any new events and applies the active ones, then
+ * collects the day's taxes and pays its upkeep.
+ */
+export const advanceTick = (state: SimState, adjacency: AdjacencyIndex = buildAdjacencyIndex(state.city)): SimState => {
+    const rng = createRng(state.rngState);
+    const tickCount = state.tickCount + 1;
+    // Yesterday's event effects come off first, so they never build up in the stats
+    const simulated = runSimulationTick(removeEventEffects(state.city, state.events), rng, adjacency);
+    const ongoing = state.events.filter(e => e.endTick > tickCount && simulated.districts.some(d => d.id === e.districtId));
+    const { city, events } = applyEventEffects(simulated, [...ongoing, ...rollEvents(simulated, ongoing, tickCount, rng)], adjacency);
+    return { city, tickCount, rngState: rng.getState(), treasury: state.treasury + dailyBudget(city).net, events };
+};
+
+/**
+ * Applies a single player action to the city. Pure: the same state and action
+ * always give the same result, which is what makes replays exact.
+ * Actions that don't fit the current city (e.g. a road to a missing district) are no-ops.
+ * Builds are charged even past zero so replays never diverge; the UI checks affordability first.
+ */
+export const applyCityAction = (state: SimState, action: CityAction): SimState => {
+    const rng = createRng(state.rngState);
+    const { city } = state;
+
+    switch (action.type) {
+        case 'build': {
+            const parent = action.parentId ? city.districts.find(d => d.id === action.parentId) : undefined;
+            const { x, y } = action.cell && !isCellOccupied(city, action.cell.x, action.cell.y) ? action.cell : findFreeNeighbor(city, parent, rng);
+            const id = action.districtId && !city.districts.some(d => d.id === action.districtId) ? action.districtId : newDistrictId(city, rng);
+            const district: District = { ...action.blueprint, id, gridX: x, gridY: y };
+            return {
+                ...state,
+                rngState: rng.getState(),
+                treasury: state.treasury - constructionCost(district),
+                city: {
+                    ...city,
+                    districts: [...city.districts, district],
+                    edges: parent
+                        ? [...city.edges, { sourceId: parent.id, targetId: district.id, capacity: ROAD_TIERS[DEFAULT_ROAD_TIER].capacity }]
+                        : city.edges
+                }
+            };
+        }
+        case 'setRules':
+            return { ...state, city: { ...city, rules: action.rules } };
+        case 'connect':
+            if (connectError(city, action.road)) return state;
+            return { ...state, city: { ...city, edges: [...city.edges, { ...action.road, capacity: action.capacity }] } };
+        case 'disconnect':
+            return { ...state, city: { ...city, edges: city.edges.filter(e => !isSameRoad(e, action.road)) } };
+        case 'setRoadCapacity':
+            return {
+                ...state,
+                city: { ...city, edges: city.edges.map(e => isSameRoad(e, action.road) ? { ...e, capacity: action.capacity } : e) }
+            };
+        case 'move':
+            if (isCellOccupied(city, action.gridX, action.gridY, action.districtId)) return state;
+            return {
+                ...state,
+                city: {
+                    ...city,
+                    districts: city.districts.map(d => d.id === action.districtId ? { ...d, gridX: action.gridX, gridY: action.gridY } : d)
+                }
+            };
+        case 'editDistrict': {
+            const district = city.districts.find(d => d.id === action.districtId);
+            if (!district) return state;
+            // New buildings are paid for like a build; only the undo, with its explicit cost, refunds them
+            return {
+                ...state,
+                treasury: state.treasury - (action.cost ?? editCost(district, action.edit)),
+                city: { ...city, districts: city.districts.map(d => d.id === action.districtId ? { ...d, ...action.edit } : d) }
+            };
+        }
+        case 'demolish':
+            if (!city.districts.some(d => d.id === action.districtId)) return state;
+            return {
+                ...state,
+                treasury: state.treasury + (action.refund ?? 0),
+                city: {
+                    ...city,
+                    districts: city.districts.filter(d => d.id !== action.districtId),
+                    edges: city.edges.filter(e => e.sourceId !== action.districtId && e.targetId !== action.districtId)
+                }
+            };
+        case 'restoreDistrict': {
+            if (city.districts.some(d => d.id === action.district.id)) return state;
+            const { gridX, gridY } = action.district;
+            // Whatever took the cell in the meantime keeps it; the restored district moves aside
+            const cell = isCellOccupied(city, gridX, gridY) ? findNearestFreeCell(city, gridX, gridY, rng) : { x: gridX, y: gridY };
+            const ids = new Set([...city.districts.map(d => d.id), action.district.id]);
+            return {
+                ...state,
+                rngState: rng.getState(),
+                treasury: state.treasury - (action.cost ?? 0),
+                city: {
+                    ...city,
+                    districts: [...city.districts, { ...action.district, gridX: cell.x, gridY: cell.y }],
+                    edges: [...city.edges, ...action.edges.filter(e => ids.has(e.sourceId) && ids.has(e.targetId) && !findRoad(city, e))]
+                }
+            };
+        }
+        default:
+            return state;
+    }
+};
+
+/**
+ * The action that takes `after` back to `before`, given that `action` turned one
+ * into the other. Returns null when the action changed nothing, so no-ops never
+ * land on the undo stack. Only the city's structure is reverted; stats keep
+ * whatever the simulation has done since.
+ */
+export const invertCityAction = (before: CityGraph, after: CityGraph, action: CityAction): CityAction | null => {
+    if (before === after) return null;
+    switch (action.type) {
+        case 'build':
+        case 'restoreDistrict': {
+            const added = after.districts.find(d => !before.districts.some(b => b.id === d.id));
+            if (!added) return null;
+            const refund = action.type === 'build' ? constructionCost(added) : action.cost;
+            return refund ? { type: 'demolish', districtId: added.id, refund } : { type: 'demolish', districtId: added.id };
+        }
+        case 'demolish': {
+            const district = before.districts.find(d => d.id === action.districtId);
+            if (!district) return null;
+            const edges = before.edges.filter(e => e.sourceId === district.id || e.targetId === district.id);
+            return action.refund ? { type: 'restoreDistrict', district, edges, cost: action.refund } : { type: 'restoreDistrict', district, edges };
+        }
+        case 'move': {
+            const district = before.districts.find(d => d.id === action.districtId);
+            return district ? { type: 'move', districtId: district.id, gridX: district.gridX, gridY: district.gridY } : null;
+        }
+        case 'editDistrict': {
+            const district = before.districts.find(d => d.id === action.districtId);
+            if (!district) return null;
+            const { name, description, type, visuals } = district;
+            const cost = action.cost ?? editCost(district, action.edit);
+            const edit = { name, description, type, visuals };
+            return cost ? { type: 'editDistrict', districtId: district.id, edit, cost: -cost } : { type: 'editDistrict', districtId: district.id, edit };
+        }
+        case 'connect':
+            return { type: 'disconnect', road: action.road };
+        case 'disconnect': {
+            const edge = findRoad(before, action.road);
+            return edge ? { type: 'connect', road: { sourceId: edge.sourceId, targetId: edge.targetId }, capacity: edge.capacity } : null;
+        }
+        case 'setRoadCapacity': {
+            const edge = findRoad(before, action.road);
+            return edge ? { type: 'setRoadCapacity', road: action.road, capacity: edge.capacity } : null;
+        }
+        case 'setRules':
+            return { type: 'setRules', rules: before.rules ?? DEFAULT_RULES };
+        default:
+            return null;
+    }
+};
+
+/**
+ * During a live replay, re-applies queued actions whose day has come round.
+ */
+export const applyDueReplayActions = <T extends SimState & { replayQueue: LoggedAction[] }>(state: T): T => {
+    let next = state;
+    while (next.replayQueue.length && next.replayQueue[0].tick <= next.tickCount) {
+        const [{ action }, ...rest] = next.replayQueue;
+        next = { ...next, ...applyCityAction(next, action), replayQueue: rest };
+    }
+    return next;
+};
+
+export const createReplayLog = (seed: number, city: CityGraph, startTick = 0, startTreasury = STARTING_TREASURY): ReplayLog => ({
+    seed,
+    startTick,
+    initialCity: city,
+    startTreasury,
+    actions: []
+});
+
+export const replayStartState = (log: ReplayLog): SimState => ({
+    city: log.initialCity,
+    tickCount: log.startTick,
+    rngState: log.seed,
+    treasury: log.startTreasury ?? STARTING_TREASURY,
+    events: []
+});
+
+/**
+ * Rebuilds a city from its seed and action log, running ticks between actions
+ * and stopping at `untilTick` (defaults to the tick of the last action).
+ */
+export const replayCity = (log: ReplayLog, untilTick?: number): SimState => {
+    let state = replayStartState(log);
+    for (const { tick, action } of log.actions) {
+        if (untilTick !== undefined && tick > untilTick) break;
+        while (state.tickCount < tick) state = advanceTick(state);
+        state = applyCityAction(state, action);
+    }
+    const target = untilTick ?? state.tickCount;
+    while (state.tickCount < target) state = advanceTick(state);
+    return state;
+};
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityGraph, District, DistrictStats, DistrictType } from '../types';
+import { DISTRICT_TYPES } from '../constants';
+import { aggregateCityStats, STAT_LABELS } from './statHistory';
+import { buildAdjacencyIndex, describeDistrictFlows } from './simulation';
+
+// A stat past its limit makes the district a problem area; `severity` ranks how far past
+const PROBLEM_LIMITS: { key: keyof DistrictStats; limit: number; high: boolean }[] = [
+    { key: 'pollution', limit: 60, high: true },
+    { key: 'trafficFlow', limit: 70, high: true },
+    { key: 'happiness', limit: 40, high: false },
+    { key: 'economy', limit: 25, high: false },
+    { key: 'transitScore', limit: 25, high: false }
+];
+
+const MAX_PROBLEMS = 6;
+const MAX_NEIGHBORS = 6;
+
+interface Problem {
+    text: string;
+    severity: number;
+}
+
+const round = (n: number) => Math.round(n);
+
+const statLine = (stats: DistrictStats, keys: (keyof DistrictStats)[]) =>
+    keys.map(k => `${STAT_LABELS[k].toLowerCase()} ${round(stats[k])}`).join(', ');
+
+/** The worst stat problems across the city, plus any road jams. */
+const findProblems = (city: CityGraph): Problem[] => {
+    const problems: Problem[] = [];
+    const adjacency = buildAdjacencyIndex(city);
+    city.districts.forEach(d => {
+        PROBLEM_LIMITS.forEach(({ key, limit, high }) => {
+            const value = d.stats[key];
+            const over = high ? value - limit : limit - value;
+            if (over > 0) problems.push({ text: `${d.name} ${STAT_LABELS[key].toLowerCase()} ${round(value)}`, severity: over });
+        });
+        const { congestion } = describeDistrictFlows(city, d, adjacency);
+        if (congestion > 0) problems.push({ text: `roads into ${d.name} jammed (${congestion.toFixed(1)} traffic backed up)`, severity: congestion * 5 });
+    });
+    return problems.sort((a, b) => b.severity - a.severity).slice(0, MAX_PROBLEMS);
+};
+
+const describeParent = (city: CityGraph, parent: District): string => {
+    const neighborIds = new Set(city.edges.flatMap(e =>
+        e.sourceId === parent.id ? [e.targetId] : e.targetId === parent.id ? [e.sourceId] : []
+    ));
+    const neighbors = city.districts.filter(d => neighborIds.has(d.id));
+    const neighborText = neighbors.length
+        ? neighbors.slice(0, MAX_NEIGHBORS).map(n => `${n.name} (${n.type})`).join(', ') + (neighbors.length > MAX_NEIGHBORS ? ', …' : '')
+        : 'none';
+    return [
+        `New district will be built next to ${parent.name} (${parent.type}): ${statLine(parent.stats, ['population', 'happiness', 'pollution', 'trafficFlow', 'economy'])}.`,
+        `Its road neighbours: ${neighborText}.`
+    ].join('\n');
+};
+
+/**
+ * Plain-text briefing on the city for the generation prompt: type mix, average
+ * stats, where the new district goes and the worst problem areas, so the model
+ * can answer what the city actually needs. Also shown to the player as-is.
+ */
+export const summarizeCity = (city: CityGraph, parent?: District, banned: DistrictType[] = []): string => {
+    const rules = banned.length ? `Not allowed in this scenario: ${banned.join(', ')}. Never propose these types.` : null;
+    if (city.districts.length === 0) {
+        return [`City "${city.name}" is empty; this will be its first district.`, rules].filter(Boolean).join('\n');
+    }
+
+    const averages = aggregateCityStats(city);
+    const counts = DISTRICT_TYPES.map(t => ({ type: t, count: city.districts.filter(d => d.type === t).length }));
+    const missing = counts.filter(c => c.count === 0 && !banned.includes(c.type)).map(c => c.type);
+    const problems = findProblems(city);
+
+    return [
+        `City "${city.name}": ${city.districts.length} districts, ${round(averages.population).toLocaleString('en-US')} residents, ${city.edges.length} roads.`,
+        `Type mix: ${counts.map(c => `${c.count} ${c.type}`).join(', ')}.${missing.length ? ` Missing entirely: ${missing.join(', ')}.` : ''}`,
+        `City averages: ${statLine(averages, ['happiness', 'pollution', 'trafficFlow', 'economy', 'transitScore'])} (0-100).`,
+        parent ? describeParent(city, parent) : 'New district will start a separate area.',
+        `Problem areas: ${problems.length ? problems.map(p => p.text).join('; ') : 'none'}.`,
+        rules
+    ].filter(Boolean).join('\n');
+};
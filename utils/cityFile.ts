@@ -0,0 +1,314 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityGraph, District, Edge, ReplayLog } from '../types';
+import { BUILDING_TYPES, DISTRICT_TYPES, MAX_POPULATION } from '../constants';
+import { replayCity } from './cityActions';
+import { normalizeGeneratedDistrict } from './districtSchema';
+import { validateRules } from './simulationRules';
+import { STARTING_TREASURY } from './budget';
+
+const FILE_FORMAT = 'flash-ui-city';
+export const CITY_FILE_VERSION = 4;
+export const CITY_FILE_EXTENSION = '.city.json';
+/** Highest day a file may claim; replaying runs every tick, so an unbounded count could hang the tab. */
+export const MAX_IMPORT_TICKS = 10000;
+
+export interface CityFile {
+    format: typeof FILE_FORMAT;
+    version: number;
+    exportedAt: string;
+    city: CityGraph;
+    tickCount: number;
+    treasury: number;
+    /** Seed and action log; lets the importer rebuild the city tick for tick. */
+    replay?: ReplayLog;
+}
+
+/** `city` is null whenever `errors` is non-empty; `warnings` never block the import. */
+export interface CityImportResult {
+    city: CityGraph | null;
+    tickCount: number;
+    treasury: number;
+    replay: ReplayLog | null;
+    errors: string[];
+    warnings: string[];
+}
+
+/**
+ * Upgrades a raw file body from version N to N + 1, keyed by the version being upgraded *from*.
+ * Version 0 is a bare CityGraph with no envelope.
+ */
+const FILE_UPGRADES: Record<number, (file: any) => any> = {
+    0: (raw: any) => ({ format: FILE_FORMAT, version: 1, exportedAt: new Date(0).toISOString(), city: raw }),
+    // v2 adds tickCount and the optional replay log
+    1: (file: any) => ({ ...file, version: 2, tickCount: 0 }),
+    // v3 adds optional city.rules; older files keep the default rules
+    2: (file: any) => ({ ...file, version: 3 }),
+    // v4 adds the treasury; older files start with the default funds
+    3: (file: any) => ({ ...file, version: 4, treasury: STARTING_TREASURY })
+};
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const checkRange = (errors: string[], path: string, value: unknown, min: number, max: number) => {
+    if (!isFiniteNumber(value)) errors.push(`${path} must be a number`);
+    else if (value < min || value > max) errors.push(`${path} is ${value}, expected ${min}–${max}`);
+};
+
+const validateDistrict = (raw: unknown, path: string, errors: string[]) => {
+    if (!isObject(raw)) {
+        errors.push(`${path} must be an object`);
+        return;
+    }
+    if (typeof raw.id !== 'string' || !raw.id) errors.push(`${path}.id must be a non-empty string`);
+    if (typeof raw.name !== 'string') errors.push(`${path}.name must be a string`);
+    if (typeof raw.description !== 'string') errors.push(`${path}.description must be a string`);
+    if (!DISTRICT_TYPES.includes(raw.type)) errors.push(`${path}.type "${raw.type}" is not one of ${DISTRICT_TYPES.join(', ')}`);
+    if (!Number.isInteger(raw.gridX)) errors.push(`${path}.gridX must be an integer`);
+    if (!Number.isInteger(raw.gridY)) errors.push(`${path}.gridY must be an integer`);
+
+    if (!isObject(raw.stats)) {
+        errors.push(`${path}.stats must be an object`);
+    } else {
+        checkRange(errors, `${path}.stats.population`, raw.stats.population, 0, MAX_POPULATION);
+        for (const key of ['trafficFlow', 'pollution', 'happiness', 'economy', 'transitScore']) {
+            checkRange(errors, `${path}.stats.${key}`, raw.stats[key], 0, 100);
+        }
+    }
+
+    validateVisuals(raw.visuals, `${path}.visuals`, errors);
+};
+
+const validateVisuals = (raw: unknown, path: string, errors: string[]) => {
+    if (!isObject(raw)) {
+        errors.push(`${path} must be an object`);
+        return;
+    }
+    checkRange(errors, `${path}.greenery`, raw.greenery, 0, 1);
+    if (typeof raw.water !== 'boolean') errors.push(`${path}.water must be a boolean`);
+    if (!Array.isArray(raw.buildings)) {
+        errors.push(`${path}.buildings must be an array`);
+        return;
+    }
+    raw.buildings.forEach((b: unknown, i: number) => {
+        const bPath = `${path}.buildings[${i}]`;
+        if (!isObject(b)) {
+            errors.push(`${bPath} must be an object`);
+            return;
+        }
+        if (!BUILDING_TYPES.includes(b.type)) errors.push(`${bPath}.type "${b.type}" is not one of ${BUILDING_TYPES.join(', ')}`);
+        if (!Number.isInteger(b.count) || b.count < 0) errors.push(`${bPath}.count must be a non-negative integer`);
+        if (typeof b.color !== 'string') errors.push(`${bPath}.color must be a string`);
+    });
+};
+
+/** Without `districtIds` only the shape is checked, e.g. for edges the replay resolves later. */
+const validateEdge = (raw: unknown, path: string, districtIds: Set<string> | null, errors: string[]) => {
+    if (!isObject(raw)) {
+        errors.push(`${path} must be an object`);
+        return;
+    }
+    for (const key of ['sourceId', 'targetId'] as const) {
+        if (typeof raw[key] !== 'string') errors.push(`${path}.${key} must be a string`);
+        else if (districtIds && !districtIds.has(raw[key])) errors.push(`${path}.${key} "${raw[key]}" points to a district that does not exist`);
+    }
+    if (raw.sourceId === raw.targetId) errors.push(`${path} connects district "${raw.sourceId}" to itself`);
+    if (!isFiniteNumber(raw.capacity) || raw.capacity <= 0) errors.push(`${path}.capacity must be a positive number`);
+};
+
+/**
+ * Strictly validates an untrusted CityGraph.
+ * Returns every problem found rather than stopping at the first, so the user gets a full report.
+ */
+export const validateCityGraph = (raw: unknown): string[] => {
+    const errors: string[] = [];
+    if (!isObject(raw)) return ['city must be an object'];
+    if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push('city.name must be a non-empty string');
+    if (!Array.isArray(raw.districts)) errors.push('city.districts must be an array');
+    if (!Array.isArray(raw.edges)) errors.push('city.edges must be an array');
+    if (errors.length) return errors;
+
+    raw.districts.forEach((d: unknown, i: number) => validateDistrict(d, `districts[${i}]`, errors));
+
+    const districtIds = new Set<string>();
+    const cells = new Map<string, string>();
+    (raw.districts as District[]).forEach((d, i) => {
+        if (!isObject(d)) return;
+        if (districtIds.has(d.id)) errors.push(`districts[${i}].id "${d.id}" is used by more than one district`);
+        districtIds.add(d.id);
+        const cell = `${d.gridX},${d.gridY}`;
+        const occupant = cells.get(cell);
+        if (occupant !== undefined) errors.push(`districts[${i}] overlaps "${occupant}" at grid ${cell}`);
+        else cells.set(cell, d.id);
+    });
+
+    raw.edges.forEach((e: unknown, i: number) => validateEdge(e, `edges[${i}]`, districtIds, errors));
+    if (raw.rules !== undefined) validateRules(raw.rules, 'city.rules').forEach(e => errors.push(e));
+
+    return errors;
+};
+
+/**
+ * Checks a replay log's shape. Whether it reproduces the city is checked separately,
+ * since a mismatch shouldn't cost the player a city that is valid on its own.
+ */
+const validateReplay = (raw: unknown): string[] => {
+    if (!isObject(raw)) return ['replay must be an object'];
+    const errors: string[] = [];
+    if (!Number.isInteger(raw.seed) || raw.seed < 0) errors.push('replay.seed must be a non-negative integer');
+    if (!Number.isInteger(raw.startTick) || raw.startTick < 0) errors.push('replay.startTick must be a non-negative integer');
+    validateCityGraph(raw.initialCity).forEach(e => errors.push(`replay.initialCity: ${e}`));
+    if (raw.startTreasury !== undefined && !isFiniteNumber(raw.startTreasury)) errors.push('replay.startTreasury must be a number');
+    if (!Array.isArray(raw.actions)) return [...errors, 'replay.actions must be an array'];
+
+    let lastTick = raw.startTick;
+    raw.actions.forEach((entry: unknown, i: number) => {
+        const path = `replay.actions[${i}]`;
+        if (!isObject(entry) || !isObject(entry.action)) {
+            errors.push(`${path} must be an object with an action`);
+            return;
+        }
+        if (!Number.isInteger(entry.tick) || entry.tick < lastTick) errors.push(`${path}.tick must be an integer no earlier than the previous action`);
+        else lastTick = entry.tick;
+        if (entry.action.type === 'build') {
+            const { errors: bpErrors, repairs } = normalizeGeneratedDistrict(entry.action.blueprint);
+            [...bpErrors, ...repairs].forEach(e => errors.push(`${path}.action.blueprint: ${e}`));
+            if (entry.action.districtId !== undefined && typeof entry.action.districtId !== 'string') errors.push(`${path}.action.districtId must be a string`);
+            const { cell } = entry.action;
+            if (cell !== undefined && (!isObject(cell) || !Number.isInteger(cell.x) || !Number.isInteger(cell.y))) {
+                errors.push(`${path}.action.cell must have integer x and y`);
+            }
+        } else if (entry.action.type === 'setRules') {
+            validateRules(entry.action.rules, `${path}.action.rules`).forEach(e => errors.push(e));
+        } else if (entry.action.type === 'editDistrict') {
+            const { districtId, edit } = entry.action;
+            if (typeof districtId !== 'string') errors.push(`${path}.action.districtId must be a string`);
+            if (!isObject(edit)) {
+                errors.push(`${path}.action.edit must be an object`);
+            } else {
+                if (typeof edit.name !== 'string' || !edit.name.trim()) errors.push(`${path}.action.edit.name must be a non-empty string`);
+                if (typeof edit.description !== 'string') errors.push(`${path}.action.edit.description must be a string`);
+                if (!DISTRICT_TYPES.includes(edit.type)) errors.push(`${path}.action.edit.type "${edit.type}" is not one of ${DISTRICT_TYPES.join(', ')}`);
+                validateVisuals(edit.visuals, `${path}.action.edit.visuals`, errors);
+            }
+            if (entry.action.cost !== undefined && !isFiniteNumber(entry.action.cost)) errors.push(`${path}.action.cost must be a number`);
+        } else if (entry.action.type === 'restoreDistrict') {
+            validateDistrict(entry.action.district, `${path}.action.district`, errors);
+            if (!Array.isArray(entry.action.edges)) errors.push(`${path}.action.edges must be an array`);
+            else entry.action.edges.forEach((e: unknown, j: number) => validateEdge(e, `${path}.action.edges[${j}]`, null, errors));
+            if (entry.action.cost !== undefined && (!isFiniteNumber(entry.action.cost) || entry.action.cost < 0)) {
+                errors.push(`${path}.action.cost must be a non-negative number`);
+            }
+        } else if (entry.action.type === 'demolish') {
+            if (typeof entry.action.districtId !== 'string') errors.push(`${path}.action.districtId must be a string`);
+            if (entry.action.refund !== undefined && (!isFiniteNumber(entry.action.refund) || entry.action.refund < 0)) {
+                errors.push(`${path}.action.refund must be a non-negative number`);
+            }
+        } else if (entry.action.type === 'move') {
+            if (typeof entry.action.districtId !== 'string') errors.push(`${path}.action.districtId must be a string`);
+            if (!Number.isInteger(entry.action.gridX) || !Number.isInteger(entry.action.gridY)) {
+                errors.push(`${path}.action.gridX and gridY must be integers`);
+            }
+        } else if (['connect', 'disconnect', 'setRoadCapacity'].includes(entry.action.type)) {
+            const { road, capacity } = entry.action;
+            if (!isObject(road) || typeof road.sourceId !== 'string' || typeof road.targetId !== 'string') {
+                errors.push(`${path}.action.road must have string sourceId and targetId`);
+            }
+            if (entry.action.type !== 'disconnect' && (!isFiniteNumber(capacity) || capacity <= 0)) {
+                errors.push(`${path}.action.capacity must be a positive number`);
+            }
+        } else {
+            errors.push(`${path}.action.type "${entry.action.type}" is not a known action`);
+        }
+    });
+    return errors;
+};
+
+/** A mismatch means either a hand-edited file or a determinism bug worth reporting. */
+const replayReproduces = (replay: ReplayLog, city: unknown, tickCount: number): boolean =>
+    JSON.stringify(replayCity(replay, tickCount).city) === JSON.stringify(city);
+
+/**
+ * Parses the text of a .city.json file, upgrading older versions and validating the result.
+ */
+export const parseCityFile = (text: string): CityImportResult => {
+    const failed = (errors: string[]): CityImportResult => ({ city: null, tickCount: 0, treasury: STARTING_TREASURY, replay: null, errors, warnings: [] });
+    let raw: any;
+    try {
+        raw = JSON.parse(text);
+    } catch (e) {
+        return failed([`File is not valid JSON: ${(e as Error).message}`]);
+    }
+    if (!isObject(raw)) return failed(['File must contain a JSON object']);
+
+    let file = raw;
+    let version = raw.format === FILE_FORMAT ? raw.version : 0;
+    if (!Number.isInteger(version)) return failed(['File version is missing or invalid']);
+    if (version < 0) return failed([`File version ${version} is not a supported version`]);
+    if (version > CITY_FILE_VERSION) {
+        return failed([`File version ${version} is newer than this app supports (${CITY_FILE_VERSION})`]);
+    }
+    while (version < CITY_FILE_VERSION) {
+        const upgrade = FILE_UPGRADES[version];
+        if (!upgrade) return failed([`File version ${version} cannot be upgraded to ${CITY_FILE_VERSION}`]);
+        file = upgrade(file);
+        version++;
+    }
+
+    const errors = validateCityGraph(file.city);
+    if (!Number.isInteger(file.tickCount) || file.tickCount < 0) errors.push('tickCount must be a non-negative integer');
+    else if (file.tickCount > MAX_IMPORT_TICKS) errors.push(`tickCount must be at most ${MAX_IMPORT_TICKS}`);
+    if (!isFiniteNumber(file.treasury)) errors.push('treasury must be a number');
+    if (errors.length) return failed(errors);
+    const warnings: string[] = [];
+    let replay: ReplayLog | null = null;
+    if (file.replay !== undefined) {
+        const replayErrors = validateReplay(file.replay);
+        if (replayErrors.length) return failed(replayErrors);
+        if (replayReproduces(file.replay, file.city, file.tickCount)) replay = file.replay;
+        else warnings.push(`Replaying the log to day ${file.tickCount} does not reproduce the exported city, so the replay was dropped`);
+    }
+
+    const city = file.city as CityGraph;
+    return {
+        city: {
+            name: city.name,
+            districts: city.districts,
+            edges: city.edges.map((e: Edge) => ({ sourceId: e.sourceId, targetId: e.targetId, capacity: e.capacity })),
+            ...(city.rules ? { rules: city.rules } : {})
+        },
+        tickCount: file.tickCount,
+        treasury: file.treasury,
+        replay,
+        errors: [],
+        warnings
+    };
+};
+
+/**
+ * Serialises a city and triggers a browser download of `<name>.city.json`.
+ */
+export const exportCityFile = (city: CityGraph, tickCount: number, treasury: number, replay?: ReplayLog): void => {
+    const file: CityFile = {
+        format: FILE_FORMAT,
+        version: CITY_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        city,
+        tickCount,
+        treasury,
+        replay
+    };
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${city.name.replace(/[^a-z0-9-_]+/gi, '_') || 'city'}${CITY_FILE_EXTENSION}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CitySaveSlot, CitySnapshot } from '../types';
+import { createReplayLog } from './cityActions';
+import { hashSeed } from './rng';
+import { STARTING_TREASURY } from './budget';
+
+const STORAGE_KEY = 'flash_ui_city_saves_v1';
+
+export const AUTOSAVE_SLOT_ID = 'autosave';
+export const CITY_SAVE_SCHEMA_VERSION = 5;
+
+/**
+ * Upgrades a raw snapshot from version N to N + 1.
+ * Register a new entry here whenever District/DistrictStats change shape,
+ * keyed by the version being upgraded *from*.
+ */
+const MIGRATIONS: Record<number, (snapshot: any) => any> = {
+  // v2: seeded rng and replay log. Old saves get a seed derived from their contents
+  // and a log that starts from the city as it was saved.
+  1: (snapshot) => {
+    const seed = hashSeed(`${snapshot.city.name}:${snapshot.tickCount}`);
+    return { ...snapshot, rngState: seed, replayLog: createReplayLog(seed, snapshot.city, snapshot.tickCount) };
+  },
+  // v3: treasury. Old saves start with the default funds; their replay logs fall back to the same
+  2: (snapshot) => ({ ...snapshot, treasury: STARTING_TREASURY }),
+  // v4: random events, none active and an empty log
+  3: (snapshot) => ({ ...snapshot, events: [], eventLog: [] }),
+  // v5: scenarios. Older saves are free play
+  4: (snapshot) => ({ ...snapshot, scenarioId: null, scenarioResult: null })
+};
+
+/**
+ * Runs every migration between `fromVersion` and the current schema version.
+ * Throws if a save comes from a newer build or a migration step is missing.
+ */
+export const migrateSnapshot = (snapshot: any, fromVersion: number): CitySnapshot => {
+  if (fromVersion > CITY_SAVE_SCHEMA_VERSION) {
+    throw new Error(`Save uses schema v${fromVersion}, newer than supported v${CITY_SAVE_SCHEMA_VERSION}`);
+  }
+  let current = snapshot;
+  for (let v = fromVersion; v < CITY_SAVE_SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration registered for schema v${v}`);
+    current = migrate(current);
+  }
+  return current as CitySnapshot;
+};
+
+const readSlots = (): CitySaveSlot[] => {
+  const serialized = localStorage.getItem(STORAGE_KEY);
+  if (!serialized) return [];
+  const parsed = JSON.parse(serialized);
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+const writeSlots = (slots: CitySaveSlot[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(slots));
+};
+
+/**
+ * Loads all save slots from localStorage, newest first.
+ * Slots that fail to migrate are dropped from the list rather than breaking the picker.
+ */
+export const loadCitySlots = (): CitySaveSlot[] => {
+  try {
+    return readSlots()
+      .flatMap(slot => {
+        try {
+          const snapshot = migrateSnapshot(slot.snapshot, slot.schemaVersion ?? 0);
+          return [{ ...slot, schemaVersion: CITY_SAVE_SCHEMA_VERSION, snapshot }];
+        } catch (e) {
+          console.error(`Skipping unreadable city save "${slot.name}":`, e);
+          return [];
+        }
+      })
+      .sort((a, b) => b.savedAt - a.savedAt);
+  } catch (e) {
+    console.error('Failed to load city saves from local storage:', e);
+    return [];
+  }
+};
+
+/**
+ * Writes a snapshot into the given slot, replacing any slot with the same id.
+ * Returns the stored slot, or null if localStorage rejected the write (e.g. quota).
+ */
+export const saveCitySlot = (id: string, name: string, snapshot: CitySnapshot): CitySaveSlot | null => {
+  const slot: CitySaveSlot = {
+    id,
+    name,
+    savedAt: Date.now(),
+    isAutosave: id === AUTOSAVE_SLOT_ID,
+    schemaVersion: CITY_SAVE_SCHEMA_VERSION,
+    snapshot
+  };
+  try {
+    writeSlots([...readSlots().filter(s => s.id !== id), slot]);
+    return slot;
+  } catch (e) {
+    console.error('Failed to save city to local storage:', e);
+    return null;
+  }
+};
+
+/**
+ * Removes a single save slot.
+ */
+export const deleteCitySlot = (id: string): void => {
+  try {
+    writeSlots(readSlots().filter(s => s.id !== id));
+  } catch (e) {
+    console.error('Failed to delete city save:', e);
+  }
+};
+
+/**
+ * Returns the autosave snapshot if one exists and is readable.
+ */
+export const loadAutosave = (): CitySnapshot | null => {
+  const slot = loadCitySlots().find(s => s.id === AUTOSAVE_SLOT_ID);
+  return slot ? slot.snapshot : null;
+};
@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DistrictType } from '../types';
+import { DISTRICT_TYPES } from '../constants';
+import { AiMessage, AiProvider, AiTask } from './aiProvider';
+import { normalizeGeneratedDistrict, NormalizeResult } from './districtSchema';
+import { parseJsonStream } from '../utils';
+
+export const DISTRICT_SCHEMA = `{
+  "name": "string (creative name)",
+  "type": "residential" | "commercial" | "industrial" | "park" | "civic",
+  "stats": {
+    "population": number (0-5000),
+    "trafficFlow": number (0-100),
+    "pollution": number (0-100),
+    "happiness": number (0-100),
+    "economy": number (0-100),
+    "transitScore": number (0-100)
+  },
+  "visuals": {
+    "buildings": [
+       { "type": "highrise"|"house"|"factory"|"shop", "count": number (1-5), "color": "hex string" }
+    ],
+    "greenery": number (0.0-1.0),
+    "water": boolean
+  },
+  "description": "Short flavor text (max 20 words)"
+}`;
+
+// 3. Prompt template for generating miniature‑looking districts
+export const GENERATION_PROMPT_TEMPLATE = `
+You are a city planner AI. Generate a single new city district based on the user request.
+Where the request leaves room, make the district answer the city's problems and gaps.
+Current City Context:
+{CONTEXT_SUMMARY}
+Request: "{USER_REQUEST}"
+
+Return STRICT JSON matching this schema:
+${DISTRICT_SCHEMA}
+`;
+
+// Several districts that belong together; `links` become roads within the cluster
+export const CLUSTER_PROMPT_TEMPLATE = `
+You are a city planner AI. Generate a coherent cluster of {COUNT} new city districts based on the user request.
+The districts should complement each other, like neighbourhoods of one quarter, and answer the city's problems and gaps where the request leaves room.
+Current City Context:
+{CONTEXT_SUMMARY}
+Request: "{USER_REQUEST}"
+
+Return a STRICT JSON array of district objects, in the order they should be built.
+Each object matches this schema, plus two extra fields:
+  "ref": "short unique id for this district within the cluster",
+  "links": ["refs of EARLIER districts in the array it has a road to"]
+${DISTRICT_SCHEMA}
+`;
+
+// Sent back to the model when its output could not be used, so the retry can fix it
+const RETRY_FEEDBACK_TEMPLATE = `
+Your previous response could not be used because:
+{ERRORS}
+
+Return the corrected response as STRICT JSON matching the schema. No commentary.
+`;
+
+export const MAX_GENERATION_ATTEMPTS = 3;
+
+export interface PartialDistrict {
+    name?: string;
+    type?: DistrictType;
+}
+
+/**
+ * Pulls the name and type out of a district response that is still streaming in.
+ * The first `"type"` that names a district type wins, so building types don't match.
+ */
+export const readPartialDistrict = (text: string): PartialDistrict => {
+    const partial: PartialDistrict = {};
+    const name = text.match(/"name"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+    if (name) {
+        try {
+            partial.name = JSON.parse(`"${name[1]}"`);
+        } catch {
+            partial.name = name[1];
+        }
+    }
+    for (const match of text.matchAll(/"type"\s*:\s*"([a-z]+)"/gi)) {
+        const type = match[1].toLowerCase() as DistrictType;
+        if (DISTRICT_TYPES.includes(type)) {
+            partial.type = type;
+            break;
+        }
+    }
+    return partial;
+};
+
+const abortError = () => new DOMException('Generation cancelled', 'AbortError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+export interface JsonRequest<T> {
+    task: AiTask;
+    /** The user's own words (or, for tasks without any, the data the prompt was built from). */
+    input: string;
+    prompt: string;
+    /** Checks a parsed response; any errors are sent back to the model for another attempt. */
+    parse: (raw: unknown) => { result: T; errors: string[] };
+}
+
+export interface JsonRequestOptions {
+    /** Cancels the request; the promise rejects with an AbortError (see `isAbortError`). */
+    signal?: AbortSignal;
+    /** Called with the response so far as it streams in. Restarts from empty on each attempt. */
+    onText?: (text: string) => void;
+}
+
+/** Streams a whole response into a string. */
+const streamText = async (provider: AiProvider, task: AiTask, input: string, messages: AiMessage[], { signal, onText }: JsonRequestOptions) => {
+    let text = '';
+    for await (const chunk of provider.stream({ task, input, messages, json: true, signal })) {
+        if (signal?.aborted) throw abortError();
+        text += chunk.text;
+        onText?.(text);
+    }
+    if (signal?.aborted) throw abortError();
+    return text;
+};
+
+/**
+ * Asks the model for structured JSON, validating each answer and feeding the
+ * problems back as a follow-up turn until it produces something usable.
+ * `result` is null only if the last answer wasn't JSON at all.
+ */
+export const requestValidatedJson = async <T>(
+    provider: AiProvider,
+    { task, input, prompt, parse }: JsonRequest<T>,
+    options: JsonRequestOptions = {}
+): Promise<{ result: T | null; errors: string[] }> => {
+    const messages: AiMessage[] = [{ role: 'user', text: prompt }];
+    let outcome: { result: T | null; errors: string[] } = { result: null, errors: ['No response'] };
+
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+        options.onText?.('');
+        const rawJson = await streamText(provider, task, input, messages, options);
+        try {
+            outcome = parse(JSON.parse(rawJson));
+        } catch (e) {
+            outcome = { result: null, errors: [`Response is not valid JSON: ${(e as Error).message}`] };
+        }
+        if (outcome.errors.length === 0) return outcome;
+
+        console.warn(`AI ${task} attempt ${attempt} rejected:`, outcome.errors);
+        messages.push(
+            { role: 'model', text: rawJson },
+            { role: 'user', text: RETRY_FEEDBACK_TEMPLATE.replace('{ERRORS}', outcome.errors.map(e => `- ${e}`).join('\n')) }
+        );
+    }
+    return outcome;
+};
+
+export interface GenerationOptions {
+    signal?: AbortSignal;
+    /** Called as the name and type of the district arrive. */
+    onProgress?: (partial: PartialDistrict) => void;
+}
+
+/** Asks the model for a single district, retrying until it's usable. */
+export const requestDistrict = async (provider: AiProvider, context: string, userRequest: string, { signal, onProgress }: GenerationOptions = {}): Promise<NormalizeResult> => {
+    const prompt = GENERATION_PROMPT_TEMPLATE
+        .replace('{CONTEXT_SUMMARY}', context)
+        .replace('{USER_REQUEST}', userRequest);
+    const { result, errors } = await requestValidatedJson(provider, {
+        task: 'district',
+        input: userRequest,
+        prompt,
+        parse: raw => {
+            const normalized = normalizeGeneratedDistrict(raw);
+            return { result: normalized, errors: normalized.errors };
+        }
+    }, { signal, onText: onProgress && (text => onProgress(readPartialDistrict(text))) });
+    return result ?? { district: null, repairs: [], errors };
+};
+
+export const DEFAULT_CLUSTER_SIZE = 3;
+export const MAX_CLUSTER_SIZE = 8;
+
+const NUMBER_WORDS = ['two', 'three', 'four', 'five', 'six', 'seven', 'eight'];
+
+/** How many districts a cluster request asks for ("... of 5 districts", "three blocks"), clamped to 2–MAX_CLUSTER_SIZE. */
+export const clusterSizeFromRequest = (userRequest: string): number => {
+    const text = userRequest.toLowerCase();
+    const digits = text.match(/\b(\d+)\b/);
+    const word = NUMBER_WORDS.findIndex(w => new RegExp(`\\b${w}\\b`).test(text));
+    const count = digits ? parseInt(digits[1], 10) : word !== -1 ? word + 2 : DEFAULT_CLUSTER_SIZE;
+    return Math.max(2, Math.min(MAX_CLUSTER_SIZE, count));
+};
+
+export interface ClusterDistrict {
+    /** The model's id for this district, unique within the cluster. */
+    ref: string;
+    /** Refs of earlier cluster districts this one should have a road to. */
+    links: string[];
+    result: NormalizeResult;
+}
+
+/**
+ * Streams a cluster of districts, yielding each one as soon as its JSON object
+ * is complete. There is no retry turn here: a district that can't be used is
+ * yielded with its errors and the caller skips it.
+ */
+export async function* requestDistrictCluster(provider: AiProvider, context: string, userRequest: string, signal?: AbortSignal): AsyncGenerator<ClusterDistrict> {
+    const count = clusterSizeFromRequest(userRequest);
+    const prompt = CLUSTER_PROMPT_TEMPLATE
+        .replace('{COUNT}', String(count))
+        .replace('{CONTEXT_SUMMARY}', context)
+        .replace('{USER_REQUEST}', userRequest);
+    const seen = new Set<string>();
+    let index = 0;
+
+    for await (const raw of parseJsonStream(provider.stream({ task: 'cluster', input: userRequest, messages: [{ role: 'user', text: prompt }], json: true, signal }))) {
+        if (signal?.aborted) throw abortError();
+        // Some models wrap the array in an object
+        const items: unknown[] = Array.isArray(raw?.districts) ? raw.districts : [raw];
+        for (const item of items) {
+            if (index >= MAX_CLUSTER_SIZE) return;
+            const fields = (typeof item === 'object' && item !== null ? item : {}) as Record<string, any>;
+            let ref = typeof fields.ref === 'string' && fields.ref.trim() ? fields.ref.trim() : `#${index}`;
+            if (seen.has(ref)) ref = `${ref}#${index}`;
+            const links = Array.isArray(fields.links) ? fields.links.filter((l: unknown): l is string => typeof l === 'string' && seen.has(l)) : [];
+            seen.add(ref);
+            index++;
+            yield { ref, links, result: normalizeGeneratedDistrict(item) };
+        }
+    }
+    // Providers end the stream quietly on abort, which would otherwise look like a short cluster
+    if (signal?.aborted) throw abortError();
+}
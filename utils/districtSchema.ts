@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BuildingType, DistrictBlueprint, DistrictFeatures, DistrictStats, DistrictType } from '../types';
+import { BUILDING_TYPES, DISTRICT_TYPES, MAX_POPULATION } from '../constants';
+
+export interface NormalizeResult {
+    /** Null when the output was unusable; `errors` then explains why. */
+    district: DistrictBlueprint | null;
+    /** Human-readable notes for every field that had to be clamped, defaulted or dropped. */
+    repairs: string[];
+    errors: string[];
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+export const MAX_BUILDING_COUNT = 5;
+const MAX_DESCRIPTION_WORDS = 20;
+
+const DEFAULT_STATS: Record<DistrictType, DistrictStats> = {
+    residential: { population: 1500, trafficFlow: 30, pollution: 15, happiness: 60, economy: 40, transitScore: 50 },
+    commercial: { population: 400, trafficFlow: 50, pollution: 25, happiness: 55, economy: 70, transitScore: 60 },
+    industrial: { population: 200, trafficFlow: 45, pollution: 60, happiness: 35, economy: 65, transitScore: 40 },
+    park: { population: 0, trafficFlow: 5, pollution: 0, happiness: 85, economy: 20, transitScore: 30 },
+    civic: { population: 300, trafficFlow: 35, pollution: 10, happiness: 65, economy: 50, transitScore: 70 }
+};
+
+const DEFAULT_BUILDING: Record<DistrictType, BuildingType | null> = {
+    residential: 'house',
+    commercial: 'shop',
+    industrial: 'factory',
+    park: null,
+    civic: 'highrise'
+};
+
+export const DEFAULT_COLORS: Record<BuildingType, string> = {
+    highrise: '#94a3b8',
+    house: '#e2e8f0',
+    factory: '#78716c',
+    shop: '#fca5a5'
+};
+
+const DEFAULT_GREENERY: Record<DistrictType, number> = {
+    residential: 0.4,
+    commercial: 0.1,
+    industrial: 0.05,
+    park: 0.9,
+    civic: 0.3
+};
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Coerces a value into [min, max], recording a repair when it was missing, non-numeric or out of range.
+ */
+const clampField = (value: unknown, min: number, max: number, fallback: number, path: string, repairs: string[]): number => {
+    const n = typeof value === 'string' ? Number(value) : value;
+    if (typeof n !== 'number' || !Number.isFinite(n)) {
+        repairs.push(`${path} missing or not a number, defaulted to ${fallback}`);
+        return fallback;
+    }
+    if (n < min || n > max) {
+        const clamped = Math.max(min, Math.min(max, n));
+        repairs.push(`${path} ${n} clamped to ${clamped}`);
+        return clamped;
+    }
+    return n;
+};
+
+const normalizeBuildings = (raw: unknown, type: DistrictType, repairs: string[]): DistrictFeatures['buildings'] => {
+    const fallbackType = DEFAULT_BUILDING[type];
+    const fallback = fallbackType ? [{ type: fallbackType, count: 2, color: DEFAULT_COLORS[fallbackType] }] : [];
+
+    if (!Array.isArray(raw)) {
+        repairs.push(`visuals.buildings missing, defaulted to ${fallback.length ? `2 ${fallbackType}s` : 'none'}`);
+        return fallback;
+    }
+
+    const buildings: DistrictFeatures['buildings'] = [];
+    raw.forEach((b, i) => {
+        const path = `visuals.buildings[${i}]`;
+        if (!isObject(b)) {
+            repairs.push(`${path} was not an object and was dropped`);
+            return;
+        }
+        let bType: BuildingType;
+        if (BUILDING_TYPES.includes(b.type)) {
+            bType = b.type;
+        } else if (fallbackType) {
+            repairs.push(`${path}.type "${b.type}" replaced with "${fallbackType}"`);
+            bType = fallbackType;
+        } else {
+            repairs.push(`${path}.type "${b.type}" is unknown, building dropped`);
+            return;
+        }
+        const count = Math.round(clampField(b.count, 1, MAX_BUILDING_COUNT, 1, `${path}.count`, repairs));
+        let color = DEFAULT_COLORS[bType];
+        if (typeof b.color === 'string' && HEX_COLOR.test(b.color.trim())) {
+            color = b.color.trim();
+        } else {
+            repairs.push(`${path}.color "${b.color}" is not a hex color, defaulted to ${color}`);
+        }
+        buildings.push({ type: bType, count, color });
+    });
+    return buildings;
+};
+
+/**
+ * Validates and repairs a district object produced from GENERATION_PROMPT_TEMPLATE.
+ * Numbers are clamped and missing fields defaulted per district type; an unknown or
+ * missing `type` is fatal because every other default depends on it.
+ */
+export const normalizeGeneratedDistrict = (raw: unknown): NormalizeResult => {
+    const repairs: string[] = [];
+    if (!isObject(raw)) {
+        return { district: null, repairs, errors: ['Response must be a single JSON object'] };
+    }
+
+    const type = typeof raw.type === 'string' ? raw.type.trim().toLowerCase() : raw.type;
+    if (!DISTRICT_TYPES.includes(type)) {
+        return {
+            district: null,
+            repairs,
+            errors: [`"type" must be one of ${DISTRICT_TYPES.map(t => `"${t}"`).join(', ')}, got ${JSON.stringify(raw.type)}`]
+        };
+    }
+    const districtType = type as DistrictType;
+    if (districtType !== raw.type) repairs.push(`type "${raw.type}" normalized to "${districtType}"`);
+
+    let name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!name) {
+        name = `New ${districtType[0].toUpperCase()}${districtType.slice(1)} District`;
+        repairs.push(`name missing, defaulted to "${name}"`);
+    }
+
+    let description = typeof raw.description === 'string' ? raw.description.trim() : '';
+    if (typeof raw.description !== 'string') {
+        repairs.push('description missing, left empty');
+    } else if (description.split(/\s+/).length > MAX_DESCRIPTION_WORDS) {
+        description = description.split(/\s+/).slice(0, MAX_DESCRIPTION_WORDS).join(' ') + '…';
+        repairs.push(`description truncated to ${MAX_DESCRIPTION_WORDS} words`);
+    }
+
+    const rawStats = isObject(raw.stats) ? raw.stats : {};
+    if (!isObject(raw.stats)) repairs.push('stats missing, using defaults');
+    const defaults = DEFAULT_STATS[districtType];
+    const stats: DistrictStats = {
+        population: Math.round(clampField(rawStats.population, 0, MAX_POPULATION, defaults.population, 'stats.population', repairs)),
+        trafficFlow: clampField(rawStats.trafficFlow, 0, 100, defaults.trafficFlow, 'stats.trafficFlow', repairs),
+        pollution: clampField(rawStats.pollution, 0, 100, defaults.pollution, 'stats.pollution', repairs),
+        happiness: clampField(rawStats.happiness, 0, 100, defaults.happiness, 'stats.happiness', repairs),
+        economy: clampField(rawStats.economy, 0, 100, defaults.economy, 'stats.economy', repairs),
+        transitScore: clampField(rawStats.transitScore, 0, 100, defaults.transitScore, 'stats.transitScore', repairs)
+    };
+
+    const rawVisuals = isObject(raw.visuals) ? raw.visuals : {};
+    if (!isObject(raw.visuals)) repairs.push('visuals missing, using defaults');
+    let water = false;
+    if (typeof rawVisuals.water === 'boolean') water = rawVisuals.water;
+    else repairs.push('visuals.water missing, defaulted to false');
+
+    const visuals: DistrictFeatures = {
+        buildings: normalizeBuildings(rawVisuals.buildings, districtType, repairs),
+        greenery: clampField(rawVisuals.greenery, 0, 1, DEFAULT_GREENERY[districtType], 'visuals.greenery', repairs),
+        water
+    };
+
+    return {
+        district: { name, type: districtType, stats, visuals, description },
+        repairs,
+        errors: []
+    };
+};
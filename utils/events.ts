@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityEvent, CityEventType, CityGraph, District, DistrictStats } from '../types';
+import { MAX_POPULATION } from '../constants';
+import { AdjacencyIndex } from './simulation';
+import { housingCapacity } from './population';
+import { deriveRng, drawTickSeed, Rng } from './rng';
+
+interface EventDefinition {
+    label: string;
+    icon: string;
+    /** Chance per day that it starts in `district`; 0 where it can't happen. */
+    chance: (district: District) => number;
+    duration: [number, number]; // Days, inclusive
+    /** Added on top of the district's stats for as long as the event lasts. */
+    effect: Partial<DistrictStats>;
+    /** Share of the effect felt by districts one road away. */
+    spread: number;
+}
+
+export const EVENT_DEFINITIONS: Record<CityEventType, EventDefinition> = {
+    fire: {
+        label: 'Fire',
+        icon: '🔥',
+        // Crowded, built-up districts burn more often
+        chance: d => {
+            const capacity = housingCapacity(d);
+            return capacity > 0 ? 0.0008 + 0.0015 * Math.min(1, d.stats.population / capacity) : 0;
+        },
+        duration: [2, 5],
+        effect: { happiness: -6, economy: -3, population: -15 },
+        spread: 0.25
+    },
+    flood: {
+        label: 'Flood',
+        icon: '🌊',
+        chance: d => d.visuals.water ? 0.002 * (1 - d.visuals.greenery * 0.5) : 0,
+        duration: [3, 7],
+        effect: { happiness: -5, economy: -2, trafficFlow: 6, transitScore: -4 },
+        spread: 0.4
+    },
+    industrialAccident: {
+        label: 'Factory accident',
+        icon: '⚠️',
+        chance: d => d.type === 'industrial' ? 0.0005 + 0.002 * (d.stats.pollution / 100) : 0,
+        duration: [3, 6],
+        effect: { pollution: 8, happiness: -4, economy: -1 },
+        spread: 0.5
+    },
+    festival: {
+        label: 'Festival',
+        icon: '🎉',
+        chance: d => (d.type === 'park' || d.type === 'civic' || d.type === 'commercial') && d.stats.happiness > 60 ? 0.002 : 0,
+        duration: [2, 4],
+        effect: { happiness: 5, economy: 1.5, trafficFlow: 4 },
+        spread: 0.5
+    },
+    boom: {
+        label: 'Economic boom',
+        icon: '📈',
+        chance: d => (d.type === 'commercial' || d.type === 'industrial') && d.stats.economy > 60 ? 0.0015 : 0,
+        duration: [5, 10],
+        effect: { economy: 2.5, happiness: 1 },
+        spread: 0.4
+    }
+};
+
+const EVENT_TYPES = Object.keys(EVENT_DEFINITIONS) as CityEventType[];
+
+/** Events kept in the game's log; older ones are dropped. */
+export const MAX_EVENT_LOG = 200;
+
+const clampStat = (key: keyof DistrictStats, value: number) =>
+    key === 'population' ? Math.round(Math.max(0, Math.min(MAX_POPULATION, value))) : Math.max(0, Math.min(100, value));
+
+const withStats = (city: CityGraph, stats: Map<string, DistrictStats>): CityGraph => ({
+    ...city,
+    districts: city.districts.map(d => stats.get(d.id) === d.stats ? d : { ...d, stats: stats.get(d.id)! })
+});
+
+/**
+ * Adds every active event's effect on top of its district's stats, and a share
+ * of it to that district's road neighbours. The effects are modifiers, not
+ * lasting changes: each event records exactly what it added so
+ * `removeEventEffects` can take it off again before the next tick.
+ */
+export const applyEventEffects = (city: CityGraph, events: CityEvent[], adjacency: AdjacencyIndex): { city: CityGraph; events: CityEvent[] } => {
+    if (events.length === 0) return { city, events };
+    const stats = new Map(city.districts.map(d => [d.id, d.stats]));
+    const applied = events.map(event => {
+        const { effect, spread } = EVENT_DEFINITIONS[event.type];
+        const deltas: Record<string, Partial<DistrictStats>> = {};
+        const add = (id: string, scale: number) => {
+            const current = stats.get(id);
+            if (!current) return;
+            const next = { ...current };
+            const delta = deltas[id] ?? {};
+            (Object.keys(effect) as (keyof DistrictStats)[]).forEach(k => {
+                next[k] = clampStat(k, current[k] + effect[k]! * scale);
+                delta[k] = (delta[k] ?? 0) + next[k] - current[k];
+            });
+            stats.set(id, next);
+            deltas[id] = delta;
+        };
+        add(event.districtId, 1);
+        (adjacency.get(event.districtId) ?? []).forEach(link => add(link.id, spread));
+        return { ...event, applied: deltas };
+    });
+    return { city: withStats(city, stats), events: applied };
+};
+
+/**
+ * Takes the effects `applyEventEffects` added back off, newest event first, so
+ * the simulation only ever advances the districts' own stats.
+ */
+export const removeEventEffects = (city: CityGraph, events: CityEvent[]): CityGraph => {
+    if (!events.some(e => e.applied)) return city;
+    const stats = new Map(city.districts.map(d => [d.id, d.stats]));
+    [...events].reverse().forEach(event => {
+        Object.entries(event.applied ?? {}).forEach(([id, delta]) => {
+            const current = stats.get(id);
+            if (!current) return;
+            const next = { ...current };
+            (Object.keys(delta) as (keyof DistrictStats)[]).forEach(k => { next[k] = current[k] - delta[k]!; });
+            stats.set(id, next);
+        });
+    });
+    return withStats(city, stats);
+};
+
+/**
+ * Rolls for new events on day `tick`. Each district rolls from its own stream,
+ * so a district's luck doesn't change when others are built or demolished.
+ */
+export const rollEvents = (city: CityGraph, active: CityEvent[], tick: number, rng: Rng): CityEvent[] => {
+    const busy = new Set(active.map(e => e.districtId));
+    const started: CityEvent[] = [];
+    const tickSeed = drawTickSeed(rng);
+    city.districts.forEach(d => {
+        if (busy.has(d.id)) return;
+        const districtRng = deriveRng(tickSeed, d.id);
+        let roll = districtRng.next();
+        const type = EVENT_TYPES.find(t => {
+            roll -= EVENT_DEFINITIONS[t].chance(d);
+            return roll < 0;
+        });
+        if (!type) return;
+        const [min, max] = EVENT_DEFINITIONS[type].duration;
+        started.push({
+            id: `${type}-${d.id}-${tick}`,
+            type,
+            districtId: d.id,
+            districtName: d.name,
+            startTick: tick,
+            endTick: tick + min + districtRng.int(max - min + 1)
+        });
+    });
+    return started;
+};
+
+/** Appends new events to the log, keeping only the most recent. */
+export const appendEventLog = (log: CityEvent[], events: CityEvent[]): CityEvent[] =>
+    events.length ? [...log, ...events.map(({ applied, ...event }) => event)].slice(-MAX_EVENT_LOG) : log;
+
+export const describeEvent = (event: CityEvent): string => {
+    const { label, icon } = EVENT_DEFINITIONS[event.type];
+    const days = event.endTick - event.startTick;
+    return `${icon} ${label} in ${event.districtName} (${days} day${days === 1 ? '' : 's'})`;
+};
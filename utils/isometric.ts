@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CameraState } from '../types';
+
+// Grid spacing of the tabletop SVG, and the centre of a tile's rhombus within its group
+export const TILE_W = 140;
+export const TILE_H = 80;
+const TILE_CENTER = { x: 60, y: 30 };
+
+/** Top-left of a tile's group in tabletop SVG coordinates. */
+export const gridToSvg = (gridX: number, gridY: number): { x: number; y: number } => ({
+    x: (gridX - gridY) * TILE_W / 2,
+    y: (gridX + gridY) * TILE_H / 2
+});
+
+/** Centre of a tile in tabletop SVG coordinates (where roads attach). */
+export const gridCenterToSvg = (gridX: number, gridY: number): { x: number; y: number } => {
+    const { x, y } = gridToSvg(gridX, gridY);
+    return { x: x + TILE_CENTER.x, y: y + TILE_CENTER.y };
+};
+
+/**
+ * Inverse of the canvas projection: a pointer position to the grid cell under it.
+ *
+ * The canvas stacks three transforms: the camera (translate + scale about the
+ * wrapper centre), the tabletop's CSS `rotateX(60deg) rotateZ(-45deg)` with no
+ * perspective, and the SVG's own isometric layout. Each is undone in turn.
+ */
+export const screenToGrid = (clientX: number, clientY: number, viewport: DOMRect, camera: CameraState): { x: number; y: number } => {
+    // 1. Camera: offset from the tabletop origin, in unscaled pixels
+    const dx = (clientX - viewport.left - viewport.width / 2 - camera.x) / camera.zoom;
+    const dy = (clientY - viewport.top - viewport.height / 2 - camera.y) / camera.zoom;
+
+    // 2. Tabletop rotation: screen = (RX(60) * RZ(-45) * p).xy, i.e.
+    //    dx = (x + y) / √2,  dy = (y - x) / (2√2)
+    const svgX = (dx - 2 * dy) / Math.SQRT2;
+    const svgY = (dx + 2 * dy) / Math.SQRT2;
+
+    // 3. SVG isometric layout, measured from the tile centre
+    const u = (svgX - TILE_CENTER.x) / (TILE_W / 2);
+    const v = (svgY - TILE_CENTER.y) / (TILE_H / 2);
+    // `+ 0` turns -0 into 0 so cells compare and serialise cleanly
+    return { x: Math.round((u + v) / 2) + 0, y: Math.round((v - u) / 2) + 0 };
+};
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BuildingType, DistrictType } from '../types';
+import { AiProvider, AiRequest, AiTask } from './aiProvider';
+import { createRng, hashSeed } from './rng';
+import { clusterSizeFromRequest } from './districtGenerator';
+
+// Offline stand-in for a real model. Output is a pure function of the request text,
+// so tests and demos get the same city every run.
+
+const TYPE_KEYWORDS: Record<DistrictType, string[]> = {
+    park: ['park', 'garden', 'green', 'forest', 'meadow', 'botanical', 'nature', 'playground'],
+    industrial: ['factory', 'industrial', 'steel', 'mill', 'warehouse', 'port', 'dock', 'refinery', 'plant', 'foundry'],
+    commercial: ['shop', 'market', 'mall', 'commercial', 'downtown', 'office', 'business', 'bazaar', 'retail', 'finance'],
+    civic: ['hall', 'school', 'hospital', 'library', 'civic', 'museum', 'university', 'station', 'stadium', 'police'],
+    residential: ['house', 'home', 'residential', 'suburb', 'apartment', 'village', 'slum', 'estate', 'neighbourhood', 'neighborhood']
+};
+
+const FLAVOR: Record<DistrictType, string[]> = {
+    residential: ['Quiet streets and chatty neighbours.', 'Balconies full of washing and window boxes.', 'Where the commuters come home.'],
+    commercial: ['Neon signs and busy pavements.', 'Every ground floor is a shop.', 'Deals struck over espresso.'],
+    industrial: ['Chimneys hum through the night.', 'Cranes, containers and steady shifts.', 'The city runs on what is made here.'],
+    park: ['Lawns, ponds and lazy afternoons.', 'A green lung for the whole city.', 'Joggers at dawn, picnics by noon.'],
+    civic: ['Grand steps and public clocks.', 'Where the city does its paperwork.', 'Columns, banners and civic pride.']
+};
+
+const WATER_KEYWORDS = ['river', 'lake', 'water', 'harbor', 'harbour', 'canal', 'waterfront', 'beach', 'bay', 'marina'];
+
+const TYPE_PROFILES: Record<DistrictType, {
+    buildings: BuildingType[];
+    suffixes: string[];
+    colors: string[];
+    population: [number, number];
+    pollution: [number, number];
+    economy: [number, number];
+    greenery: [number, number];
+}> = {
+    residential: { buildings: ['house', 'highrise'], suffixes: ['Heights', 'Gardens', 'Row', 'Village'], colors: ['#e2e8f0', '#fde68a', '#fecaca'], population: [800, 3000], pollution: [5, 25], economy: [30, 55], greenery: [0.3, 0.7] },
+    commercial: { buildings: ['shop', 'highrise'], suffixes: ['Market', 'Exchange', 'Square', 'Arcade'], colors: ['#93c5fd', '#fca5a5', '#c4b5fd'], population: [200, 900], pollution: [15, 35], economy: [55, 85], greenery: [0.05, 0.25] },
+    industrial: { buildings: ['factory', 'factory', 'shop'], suffixes: ['Works', 'Yards', 'Docks', 'Foundry'], colors: ['#78716c', '#a8a29e', '#57534e'], population: [100, 500], pollution: [45, 80], economy: [50, 80], greenery: [0, 0.1] },
+    park: { buildings: [], suffixes: ['Park', 'Commons', 'Green', 'Gardens'], colors: ['#86efac'], population: [0, 50], pollution: [0, 5], economy: [10, 30], greenery: [0.8, 1] },
+    civic: { buildings: ['highrise', 'house'], suffixes: ['Plaza', 'Quarter', 'Center', 'Campus'], colors: ['#f9a8d4', '#e9d5ff', '#f1f5f9'], population: [150, 700], pollution: [5, 20], economy: [40, 65], greenery: [0.2, 0.5] }
+};
+
+const words = (text: string): string[] => text.toLowerCase().match(/[a-z]+/g) ?? [];
+
+const detectType = (tokens: string[]): DistrictType => {
+    let best: DistrictType = 'residential';
+    let bestScore = 0;
+    (Object.keys(TYPE_KEYWORDS) as DistrictType[]).forEach(type => {
+        const score = tokens.filter(t => TYPE_KEYWORDS[type].some(k => t.startsWith(k))).length;
+        if (score > bestScore) {
+            best = type;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+const titleCase = (word: string) => word[0].toUpperCase() + word.slice(1);
+
+export const mockDistrict = (input: string, type: DistrictType = detectType(words(input))) => {
+    const tokens = words(input);
+    const profile = TYPE_PROFILES[type];
+    const rng = createRng(hashSeed(input.trim().toLowerCase()));
+    const between = ([min, max]: [number, number]) => rng.range(min, max);
+    const water = tokens.some(t => WATER_KEYWORDS.includes(t));
+
+    const allKeywords = Object.values(TYPE_KEYWORDS).flat();
+    const descriptive = tokens.filter(t => t.length > 3 && !allKeywords.some(k => t.startsWith(k)));
+    const stem = descriptive.length ? titleCase(rng.pick(descriptive)) : titleCase(type);
+    const name = `${stem} ${rng.pick(profile.suffixes)}`;
+
+    const round = (n: number) => Math.round(n);
+    const pollution = round(between(profile.pollution));
+    const economy = round(between(profile.economy));
+    const greenery = Math.round(between(profile.greenery) * 100) / 100;
+
+    return {
+        name,
+        type,
+        stats: {
+            population: round(between(profile.population)),
+            trafficFlow: round(between([10, 60])),
+            pollution,
+            happiness: Math.max(0, Math.min(100, round(50 + greenery * 30 - pollution * 0.4 + economy * 0.2))),
+            economy,
+            transitScore: round(between([20, 80]))
+        },
+        visuals: {
+            buildings: profile.buildings.length
+                ? Array.from({ length: 1 + rng.int(3) }, () => ({
+                    type: rng.pick(profile.buildings),
+                    count: 1 + rng.int(5),
+                    color: rng.pick(profile.colors)
+                }))
+                : [],
+            greenery,
+            water
+        },
+        description: rng.pick(FLAVOR[type]) + (water ? ' Overlooks the water.' : '')
+    };
+};
+
+// What a cluster built around each type fills in with, in order
+const CLUSTER_COMPANIONS: Record<DistrictType, DistrictType[]> = {
+    residential: ['commercial', 'park', 'residential', 'civic'],
+    commercial: ['residential', 'commercial', 'civic', 'park'],
+    industrial: ['industrial', 'residential', 'commercial', 'park'],
+    park: ['residential', 'civic', 'park', 'commercial'],
+    civic: ['park', 'commercial', 'residential', 'civic']
+};
+
+/** A chain of districts around the requested type; every third one also links back to the first. */
+export const mockCluster = (input: string) => {
+    const type = detectType(words(input));
+    const companions = CLUSTER_COMPANIONS[type];
+    return Array.from({ length: clusterSizeFromRequest(input) }, (_, i) => ({
+        ref: `d${i + 1}`,
+        links: i === 0 ? [] : i % 3 === 0 && i > 1 ? [`d${i}`, 'd1'] : [`d${i}`],
+        ...mockDistrict(`${input} #${i}`, i === 0 ? type : companions[(i - 1) % companions.length])
+    }));
+};
+
+interface BriefedDistrict {
+    id: string;
+    name: string;
+    type: DistrictType;
+    greenery: number;
+    stats: Record<string, number>;
+}
+
+/** Rule-of-thumb advice from the advisor's city data: clean up, unjam, fill gaps. */
+export const mockAdvice = (input: string) => {
+    const { districts = [], roads = [] } = JSON.parse(input) as { districts: BriefedDistrict[]; roads: { sourceId: string; targetId: string; tier: string }[] };
+    const byId = new Map(districts.map(d => [d.id, d]));
+    const worst = (key: string) => [...districts].sort((a, b) => b.stats[key] - a.stats[key])[0];
+    const recommendations = [];
+    const planned = new Set<DistrictType>(districts.map(d => d.type));
+
+    const polluted = worst('pollution');
+    if (polluted && polluted.stats.pollution > 40) {
+        recommendations.push({
+            title: `Add a park next to ${polluted.name}`,
+            reason: `${polluted.name} has pollution ${polluted.stats.pollution}; greenery next door soaks it up.`,
+            action: { type: 'build', nearId: polluted.id, district: mockDistrict(`${polluted.name} green park`, 'park') }
+        });
+        planned.add('park');
+        if (polluted.greenery < 0.5) {
+            recommendations.push({
+                title: `Plant trees in ${polluted.name}`,
+                reason: `Greenery is only ${Math.round(polluted.greenery * 100)}%.`,
+                action: { type: 'editDistrict', districtId: polluted.id, changes: { greenery: Math.min(1, polluted.greenery + 0.4) } }
+            });
+        }
+    }
+
+    const busiest = roads
+        .filter(r => r.tier !== 'highway' && byId.has(r.sourceId) && byId.has(r.targetId))
+        .map(r => ({ road: r, traffic: byId.get(r.sourceId)!.stats.trafficFlow + byId.get(r.targetId)!.stats.trafficFlow }))
+        .sort((a, b) => b.traffic - a.traffic)[0];
+    if (busiest && busiest.traffic > 80) {
+        const { sourceId, targetId, tier } = busiest.road;
+        recommendations.push({
+            title: `Upgrade the road between ${byId.get(sourceId)!.name} and ${byId.get(targetId)!.name}`,
+            reason: `Combined traffic of ${busiest.traffic} is squeezing through a ${tier}.`,
+            action: { type: 'setRoadTier', sourceId, targetId, tier: tier === 'lane' ? 'avenue' : 'highway' }
+        });
+    }
+
+    const unhappy = [...districts].sort((a, b) => a.stats.happiness - b.stats.happiness)[0];
+    const missing = (['park', 'civic', 'commercial'] as DistrictType[]).find(t => !planned.has(t));
+    if (unhappy && missing) {
+        recommendations.push({
+            title: `Build a ${missing} district near ${unhappy.name}`,
+            reason: `The city has no ${missing} districts and ${unhappy.name} is its least happy (${unhappy.stats.happiness}).`,
+            action: { type: 'build', nearId: unhappy.id, district: mockDistrict(`${unhappy.name} ${missing}`, missing) }
+        });
+    }
+
+    return {
+        summary: recommendations.length
+            ? `${districts.length} districts, ${recommendations.length} things to fix. Start with: ${recommendations[0].title}.`
+            : 'The city is in good shape. Keep growing it evenly.',
+        recommendations
+    };
+};
+
+const TASK_HANDLERS: Record<AiTask, (request: AiRequest) => unknown> = {
+    district: ({ input }) => mockDistrict(input),
+    cluster: ({ input }) => mockCluster(input),
+    advice: ({ input }) => mockAdvice(input)
+};
+
+const STREAM_CHUNK_SIZE = 48;
+const STREAM_CHUNK_DELAY_MS = 25; // Slow enough to watch a cluster arrive
+
+/**
+ * Deterministic offline provider. Ignores the prompt wording and answers from
+ * the task and the user's input alone, with no network or API key.
+ */
+export const createMockProvider = (model: string): AiProvider => ({
+    id: 'mock',
+    model,
+    generate: async (request) => JSON.stringify(TASK_HANDLERS[request.task](request)),
+    stream: async function* (request) {
+        const text = JSON.stringify(TASK_HANDLERS[request.task](request));
+        for (let i = 0; i < text.length && !request.signal?.aborted; i += STREAM_CHUNK_SIZE) {
+            await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+            yield { text: text.slice(i, i + STREAM_CHUNK_SIZE) };
+        }
+    }
+});
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DistrictStats } from '../types';
+import { MAX_POPULATION } from '../constants';
+
+// Low to high. Stats where high is bad run green to red; the rest red to green
+export const OVERLAY_GRADIENTS: Record<keyof DistrictStats, string[]> = {
+    pollution: ['#22c55e', '#facc15', '#7c2d12'],
+    trafficFlow: ['#22c55e', '#f59e0b', '#dc2626'],
+    happiness: ['#dc2626', '#facc15', '#22c55e'],
+    economy: ['#dc2626', '#facc15', '#10b981'],
+    population: ['#e0e7ff', '#818cf8', '#312e81'],
+    transitScore: ['#dc2626', '#facc15', '#0ea5e9']
+};
+
+// Road colours for load 0, 1 (at capacity) and 2 (jammed)
+export const ROAD_LOAD_GRADIENT = ['#4ade80', '#facc15', '#dc2626'];
+
+export const overlayMax = (mode: keyof DistrictStats): number => mode === 'population' ? MAX_POPULATION : 100;
+
+const parseHex = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+/** Colour at `t` (clamped to 0-1) along evenly spaced #rrggbb stops. */
+export const sampleGradient = (stops: string[], t: number): string => {
+    const x = Math.max(0, Math.min(1, t)) * (stops.length - 1);
+    const i = Math.min(stops.length - 2, Math.floor(x));
+    const [a, b] = [parseHex(stops[i]), parseHex(stops[i + 1])];
+    return `#${a.map((c, k) => Math.round(c + (b[k] - c) * (x - i)).toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const overlayColor = (mode: keyof DistrictStats, value: number): string =>
+    sampleGradient(OVERLAY_GRADIENTS[mode], value / overlayMax(mode));
+
+export const roadLoadColor = (load: number): string => sampleGradient(ROAD_LOAD_GRADIENT, load / 2);
+
+/** Road stroke width for the flow overlay, in tabletop SVG units. */
+export const roadFlowWidth = (demand: number): number => Math.min(28, 3 + demand * 0.8);
+
+export const cssGradient = (stops: string[]): string => `linear-gradient(to right, ${stops.join(', ')})`;
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityGraph, District } from '../types';
+import { Rng } from './rng';
+
+// Bounds the search on absurdly dense cities; real cities never get near it
+const MAX_SEARCH_RADIUS = 64;
+
+export const isCellOccupied = (city: CityGraph, x: number, y: number, ignoreId?: string): boolean =>
+    city.districts.some(d => d.id !== ignoreId && d.gridX === x && d.gridY === y);
+
+/**
+ * Nearest free cell to (x, y) by Manhattan distance, growing one ring at a time.
+ * Ties within a ring are broken with `rng` so layouts stay replayable; a lone
+ * candidate doesn't draw from it.
+ */
+export const findNearestFreeCell = (city: CityGraph, x: number, y: number, rng: Rng, minRadius = 0): { x: number, y: number } => {
+    for (let r = minRadius; r <= MAX_SEARCH_RADIUS; r++) {
+        const ring: { x: number, y: number }[] = [];
+        for (let dx = -r; dx <= r; dx++) {
+            const dy = r - Math.abs(dx);
+            ring.push({ x: x + dx, y: y + dy });
+            if (dy !== 0) ring.push({ x: x + dx, y: y - dy });
+        }
+        const free = ring.filter(c => !isCellOccupied(city, c.x, c.y));
+        if (free.length === 1) return free[0];
+        if (free.length) return rng.pick(free);
+    }
+    throw new Error(`No free grid cell within ${MAX_SEARCH_RADIUS} of ${x},${y}`);
+};
+
+/**
+ * Picks a free grid cell orthogonally adjacent to `startDistrict`, in rng order.
+ * If all four are taken, falls back to the nearest free cell further out.
+ */
+export const findFreeNeighbor = (city: CityGraph, startDistrict: District | undefined, rng: Rng): { x: number, y: number } => {
+    if (!startDistrict) return findNearestFreeCell(city, 0, 0, rng);
+    const directions = [{ dx: 1, dy: 0 }, { dx: -1, dy: 0 }, { dx: 0, dy: 1 }, { dx: 0, dy: -1 }];
+    const shuffled = rng.shuffle(directions);
+    
+    for (const dir of shuffled) {
+        const checkX = startDistrict.gridX + dir.dx;
+        const checkY = startDistrict.gridY + dir.dy;
+        if (!isCellOccupied(city, checkX, checkY)) return { x: checkX, y: checkY };
+    }
+    return findNearestFreeCell(city, startDistrict.gridX, startDistrict.gridY, rng, 2);
+};
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BuildingType, CityGraph, District, SimulationRules } from '../types';
+import { MAX_POPULATION } from '../constants';
+import { AdjacencyIndex } from './simulation';
+
+/** Residents each building can house; parks with no buildings house nobody. */
+export const HOUSING_PER_BUILDING: Record<BuildingType, number> = {
+    highrise: 600,
+    house: 150,
+    factory: 40,
+    shop: 80
+};
+
+// Empty districts grow as if this share of their housing were already filled, so newcomers can arrive
+const SETTLER_SHARE = 0.05;
+// Overcrowded districts lose this multiple of the growth rate of their excess each tick
+const OVERCROWDING_EXODUS = 4;
+// Attractiveness lost per 100% over capacity
+const CROWDING_PENALTY = 50;
+
+export const housingCapacity = (district: District): number =>
+    Math.min(MAX_POPULATION, district.visuals.buildings.reduce((sum, b) => sum + HOUSING_PER_BUILDING[b.type] * b.count, 0));
+
+/**
+ * How much people want to live in a district, 0-100: happiness and jobs,
+ * minus a penalty once it's fuller than its housing allows.
+ */
+export const attractiveness = (district: District, capacity = housingCapacity(district)): number => {
+    const { happiness, economy, population } = district.stats;
+    const crowding = capacity > 0 ? Math.max(0, population / capacity - 1) : population > 0 ? 1 : 0;
+    return Math.max(0, (happiness + economy) / 2 - crowding * CROWDING_PENALTY);
+};
+
+/**
+ * Births minus departures for one tick. Happy, prosperous districts grow into
+ * their free housing; miserable ones shrink, and anyone without a home leaves.
+ */
+export const naturalChange = (district: District, rules: SimulationRules, capacity = housingCapacity(district)): number => {
+    const { happiness, economy, population } = district.stats;
+    const mood = ((happiness + economy) / 2 - 50) / 50; // -1..1
+    if (population > capacity) {
+        // At least one resident a day, so a small excess doesn't round away to nothing
+        const excess = population - capacity;
+        return rules.growthRate > 0 ? -Math.min(excess, Math.max(1, excess * rules.growthRate * OVERCROWDING_EXODUS)) : 0;
+    }
+    if (mood < 0) return population * rules.growthRate * mood;
+    const room = capacity > 0 ? 1 - population / capacity : 0;
+    return Math.max(population, capacity * SETTLER_SHARE) * rules.growthRate * mood * room;
+};
+
+/**
+ * Residents moving from `from` to `to` along a road this tick (negative means
+ * the other way). Flows towards the more attractive district, faster over
+ * bigger roads, and never into a district with no housing.
+ */
+export const migrationFlow = (from: District, to: District, capacity: number, rules: SimulationRules): number => {
+    const fromCapacity = housingCapacity(from);
+    const toCapacity = housingCapacity(to);
+    const gap = attractiveness(to, toCapacity) - attractiveness(from, fromCapacity);
+    const [source, sourceRoom, targetRoom] = gap > 0 ? [from, fromCapacity, toCapacity] : [to, toCapacity, fromCapacity];
+    if (targetRoom === 0 && sourceRoom > 0) return 0;
+    const weight = Math.min(2, capacity / rules.referenceCapacity);
+    const moving = Math.round(source.stats.population * rules.migrationRate * (Math.abs(gap) / 100) * weight);
+    return gap > 0 ? moving : -moving;
+};
+
+/**
+ * Every district's population after one tick of natural change and migration.
+ * Migration reads the stats from before the tick, so the result doesn't depend
+ * on district order. Nobody is created or lost in transit: a district can't
+ * send out more people than it has, or take in more than MAX_POPULATION allows;
+ * the flows are scaled down to fit and whoever can't move stays put.
+ */
+export const nextPopulations = (city: CityGraph, adjacency: AdjacencyIndex, rules: SimulationRules): Map<string, number> => {
+    const order = new Map(city.districts.map((d, i) => [d.id, i]));
+    const base = new Map(city.districts.map(d => [
+        d.id,
+        Math.max(0, Math.min(MAX_POPULATION, d.stats.population + Math.round(naturalChange(d, rules))))
+    ]));
+
+    // Each road once, as a flow from one end to the other
+    const moves: { from: string; to: string; people: number }[] = [];
+    city.districts.forEach(d => {
+        (adjacency.get(d.id) ?? []).forEach(({ id, capacity }) => {
+            if ((order.get(id) ?? -1) <= order.get(d.id)!) return;
+            const flow = migrationFlow(d, city.districts[order.get(id)!], capacity, rules);
+            if (flow > 0) moves.push({ from: d.id, to: id, people: flow });
+            else if (flow < 0) moves.push({ from: id, to: d.id, people: -flow });
+        });
+    });
+
+    const total = (key: 'from' | 'to') => moves.reduce((sums, m) => sums.set(m[key], (sums.get(m[key]) ?? 0) + m.people), new Map<string, number>());
+    const fit = (limit: number, wanted: number) => wanted > limit ? limit / wanted : 1;
+
+    const outflow = total('from');
+    moves.forEach(m => { m.people *= fit(base.get(m.from)!, outflow.get(m.from)!); });
+    const inflow = total('to');
+    moves.forEach(m => { m.people = Math.floor(m.people * fit(MAX_POPULATION - base.get(m.to)!, inflow.get(m.to)!)); });
+
+    const next = new Map(base);
+    moves.forEach(({ from, to, people }) => {
+        next.set(from, next.get(from)! - people);
+        next.set(to, next.get(to)! + people);
+    });
+    return next;
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Small seeded PRNG (mulberry32). All city randomness flows through one of these
+ * so a seed plus an action log reproduces a city exactly. The whole generator
+ * state is a single uint32, which is what gets stored in GameState and saves.
+ */
+export interface Rng {
+    /** Uniform float in [0, 1). */
+    next: () => number;
+    range: (min: number, max: number) => number;
+    /** Uniform integer in [0, maxExclusive). */
+    int: (maxExclusive: number) => number;
+    pick: <T>(items: T[]) => T;
+    /** Returns a shuffled copy; the input is left untouched. */
+    shuffle: <T>(items: T[]) => T[];
+    getState: () => number;
+}
+
+export const createRng = (seed: number): Rng => {
+    let state = seed >>> 0;
+
+    const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+    const int = (maxExclusive: number) => Math.floor(next() * maxExclusive);
+
+    return {
+        next,
+        range: (min, max) => min + next() * (max - min),
+        int,
+        pick: (items) => items[int(items.length)],
+        shuffle: (items) => {
+            const copy = [...items];
+            for (let i = copy.length - 1; i > 0; i--) {
+                const j = int(i + 1);
+                [copy[i], copy[j]] = [copy[j], copy[i]];
+            }
+            return copy;
+        },
+        getState: () => state
+    };
+};
+
+/** 32-bit FNV-1a hash, for deriving stable seeds from ids and text. */
+export const hashSeed = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+/**
+ * A stream of its own for `key` (e.g. a district id) on top of a per-tick seed.
+ * Adding or removing one key leaves every other key's draws unchanged.
+ */
+export const deriveRng = (seed: number, key: string): Rng => createRng((seed ^ hashSeed(key)) >>> 0);
+
+/** Draws the seed that one tick's per-district streams derive from. */
+export const drawTickSeed = (rng: Rng): number => rng.int(0x100000000) >>> 0;
+
+/**
+ * Fresh entropy for a brand-new city. This is the only place city randomness
+ * may come from Math.random; everything after it is derived from the seed.
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityGraph, Edge, RoadRef, RoadTier } from '../types';
+import { ROAD_TIERS } from '../constants';
+
+export const isSameRoad = (edge: RoadRef, road: RoadRef): boolean =>
+    (edge.sourceId === road.sourceId && edge.targetId === road.targetId) ||
+    (edge.sourceId === road.targetId && edge.targetId === road.sourceId);
+
+export const findRoad = (city: CityGraph, road: RoadRef): Edge | undefined => city.edges.find(e => isSameRoad(e, road));
+
+/**
+ * Tier whose capacity is closest to `capacity`. Imported or older edges may
+ * carry any capacity, so this only picks the visuals, never changes the value.
+ */
+export const roadTierOf = (capacity: number): RoadTier =>
+    (Object.keys(ROAD_TIERS) as RoadTier[]).reduce((best, tier) =>
+        Math.abs(ROAD_TIERS[tier].capacity - capacity) < Math.abs(ROAD_TIERS[best].capacity - capacity) ? tier : best
+    );
+
+/** Why a new road between `sourceId` and `targetId` isn't allowed, or null if it is. */
+export const connectError = (city: CityGraph, road: RoadRef): string | null => {
+    if (road.sourceId === road.targetId) return 'A road needs two different districts';
+    if (!city.districts.some(d => d.id === road.sourceId) || !city.districts.some(d => d.id === road.targetId)) {
+        return 'Both ends of a road must be existing districts';
+    }
+    if (findRoad(city, road)) return 'These districts are already connected';
+    return null;
+};
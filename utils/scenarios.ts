@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityGraph, District, DistrictStats, DistrictType, GoalMetric, GoalProgress, Scenario, ScenarioGoal, ScenarioOutcome, SimState } from '../types';
+import { DISTRICT_TYPES, ROAD_TIERS } from '../constants';
+import { STARTING_TREASURY, formatMoney } from './budget';
+import { aggregateCityStats, STAT_LABELS } from './statHistory';
+
+const district = (
+    id: string,
+    name: string,
+    type: DistrictType,
+    [gridX, gridY]: [number, number],
+    stats: DistrictStats,
+    visuals: District['visuals'],
+    description: string
+): District => ({ id, name, type, gridX, gridY, stats, visuals, description });
+
+const stats = (population: number, trafficFlow: number, pollution: number, happiness: number, economy: number, transitScore: number): DistrictStats =>
+    ({ population, trafficFlow, pollution, happiness, economy, transitScore });
+
+const avenue = (sourceId: string, targetId: string) => ({ sourceId, targetId, capacity: ROAD_TIERS.avenue.capacity });
+
+const OLD_TOWN = district('d1', 'Old Town', 'residential', [0, 0], stats(1200, 20, 10, 85, 40, 60),
+    { buildings: [{ type: 'house', count: 4, color: '#e2e8f0' }, { type: 'highrise', count: 1, color: '#fde68a' }], greenery: 0.8, water: false },
+    'The historic center.');
+
+const SANDBOX_CITY: CityGraph = {
+    name: 'Neo-Miniatura',
+    districts: [OLD_TOWN],
+    edges: []
+};
+
+const BOOMTOWN_CITY: CityGraph = {
+    name: 'Boomtown',
+    districts: [
+        { ...OLD_TOWN, name: 'First Street' },
+        district('d2', 'Trading Post', 'commercial', [1, 0], stats(300, 30, 15, 65, 60, 40),
+            { buildings: [{ type: 'shop', count: 3, color: '#93c5fd' }], greenery: 0.2, water: false },
+            'A handful of shops serving the settlers.')
+    ],
+    edges: [avenue('d1', 'd2')]
+};
+
+const RUST_BELT_CITY: CityGraph = {
+    name: 'Rustfield',
+    districts: [
+        district('d1', 'Smelter Yards', 'industrial', [0, 0], stats(400, 50, 85, 25, 55, 30),
+            { buildings: [{ type: 'factory', count: 5, color: '#78716c' }], greenery: 0, water: true },
+            'Furnaces that never cool, on a river that never clears.'),
+        district('d2', 'Foundry Row', 'industrial', [1, 0], stats(350, 45, 75, 30, 50, 30),
+            { buildings: [{ type: 'factory', count: 4, color: '#a8a29e' }], greenery: 0.05, water: false },
+            'Soot on every window sill.'),
+        district('d3', 'Workers Terraces', 'residential', [0, 1], stats(2000, 40, 55, 35, 35, 40),
+            { buildings: [{ type: 'house', count: 5, color: '#fecaca' }, { type: 'highrise', count: 2, color: '#e2e8f0' }], greenery: 0.1, water: false },
+            'Back-to-back houses in the shadow of the chimneys.')
+    ],
+    edges: [avenue('d1', 'd2'), avenue('d1', 'd3'), avenue('d2', 'd3')]
+};
+
+const GREEN_VALLEY_CITY: CityGraph = {
+    name: 'Green Valley',
+    districts: [
+        district('d1', 'Meadow Hamlet', 'residential', [0, 0], stats(600, 10, 5, 75, 35, 50),
+            { buildings: [{ type: 'house', count: 5, color: '#fde68a' }], greenery: 0.7, water: true },
+            'Cottages along a clear stream.')
+    ],
+    edges: []
+};
+
+export const SANDBOX_SCENARIO_ID = 'sandbox';
+
+export const SCENARIOS: Scenario[] = [
+    {
+        id: SANDBOX_SCENARIO_ID,
+        name: 'Sandbox',
+        description: 'No goals and no deadline. Build whatever you like.',
+        city: SANDBOX_CITY,
+        budget: STARTING_TREASURY,
+        goals: []
+    },
+    {
+        id: 'boomtown',
+        name: 'Boomtown',
+        description: 'Two districts and a lot of optimism. Grow a big, happy city before the settlers lose heart.',
+        city: BOOMTOWN_CITY,
+        budget: 25000,
+        dayLimit: 200,
+        goals: [
+            { metric: 'population', comparison: 'atLeast', target: 12000 },
+            { metric: 'happiness', comparison: 'atLeast', target: 55 }
+        ]
+    },
+    {
+        id: 'green-valley',
+        name: 'Green Valley',
+        description: 'The valley has banned heavy industry. Grow without spoiling the air.',
+        city: GREEN_VALLEY_CITY,
+        budget: 20000,
+        allowedTypes: ['residential', 'commercial', 'park', 'civic'],
+        dayLimit: 300,
+        goals: [
+            { metric: 'population', comparison: 'atLeast', target: 8000 },
+            { metric: 'pollution', comparison: 'atMost', target: 15 },
+            { metric: 'happiness', comparison: 'atLeast', target: 60 }
+        ]
+    },
+    {
+        id: 'rust-belt',
+        name: 'Rust Belt',
+        description: 'An old factory town choking on its own smoke. Clean it up without killing the jobs.',
+        city: RUST_BELT_CITY,
+        budget: 15000,
+        dayLimit: 250,
+        goals: [
+            { metric: 'pollution', comparison: 'atMost', target: 30 },
+            { metric: 'economy', comparison: 'atLeast', target: 50 },
+            { metric: 'happiness', comparison: 'atLeast', target: 50 }
+        ]
+    },
+    {
+        id: 'shoestring',
+        name: 'Shoestring',
+        description: 'The council is nearly broke. Build carefully and fill the coffers.',
+        city: SANDBOX_CITY,
+        budget: 6000,
+        dayLimit: 300,
+        goals: [
+            { metric: 'treasury', comparison: 'atLeast', target: 30000 },
+            { metric: 'population', comparison: 'atLeast', target: 5000 }
+        ]
+    }
+];
+
+export const getScenario = (id: string | null): Scenario | undefined => SCENARIOS.find(s => s.id === id);
+
+export const GOAL_LABELS: Record<GoalMetric, string> = {
+    ...STAT_LABELS,
+    treasury: 'Treasury',
+    districts: 'Districts'
+};
+
+export const isTypeAllowed = (scenario: Scenario | undefined, type: DistrictType): boolean =>
+    !scenario?.allowedTypes || scenario.allowedTypes.includes(type);
+
+/** The types a scenario forbids, for prompts and messages; empty when everything is allowed. */
+export const bannedTypes = (scenario: Scenario | undefined): DistrictType[] =>
+    DISTRICT_TYPES.filter(t => !isTypeAllowed(scenario, t));
+
+/** Current value of a goal's metric: totals for population, city averages for the other stats. */
+export const goalValue = (metric: GoalMetric, state: SimState): number => {
+    if (metric === 'treasury') return state.treasury;
+    if (metric === 'districts') return state.city.districts.length;
+    return aggregateCityStats(state.city)[metric];
+};
+
+export const isGoalMet = (goal: ScenarioGoal, value: number): boolean =>
+    goal.comparison === 'atLeast' ? value >= goal.target : value <= goal.target;
+
+export const goalProgress = (scenario: Scenario | undefined, state: SimState): GoalProgress[] =>
+    (scenario?.goals ?? []).map(goal => {
+        const value = goalValue(goal.metric, state);
+        return { goal, value, met: isGoalMet(goal, value) };
+    });
+
+export const formatGoalValue = (metric: GoalMetric, value: number): string =>
+    metric === 'treasury' ? formatMoney(value) : Math.round(value).toLocaleString('en-US');
+
+export const describeGoal = (goal: ScenarioGoal): string =>
+    `${GOAL_LABELS[goal.metric]} ${goal.comparison === 'atLeast' ? 'at least' : 'at most'} ${formatGoalValue(goal.metric, goal.target)}`;
+
+/**
+ * Won once every goal holds on the same day, lost when the day limit passes
+ * first. A city checked after its deadline has lost, whatever its goals show now.
+ * Null while the scenario is still running, and always for the sandbox.
+ */
+export const scenarioOutcome = (scenario: Scenario, state: SimState): ScenarioOutcome | null => {
+    if (scenario.goals.length === 0) return null;
+    const { dayLimit } = scenario;
+    if (dayLimit !== undefined && state.tickCount > dayLimit) return 'lost';
+    if (goalProgress(scenario, state).every(p => p.met)) return 'won';
+    if (dayLimit !== undefined && state.tickCount === dayLimit) return 'lost';
+    return null;
+};
@@ -4,81 +4,216 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { CityGraph, District, Edge } from '../types';
+import { CityGraph, District, SimulationRules } from '../types';
+import { deriveRng, drawTickSeed, Rng } from './rng';
+import { getCityRules } from './simulationRules';
+import { attractiveness, housingCapacity, migrationFlow, naturalChange, nextPopulations } from './population';
 
-// 4. Simulation model tuned for district‑to‑district interactions
+// 4. Simulation model tuned for district‑to‑district interactions.
+// The coefficients live in the city's SimulationRules (see simulationRules.ts).
 
-const TRAFFIC_COUPLING = 0.15;
-const POLLUTION_SPREAD = 0.08;
-const ECONOMY_SYNERGY = 0.05;
+/** A district's link to one neighbour. Parallel edges are merged by summing capacity. */
+export interface NeighborLink {
+    id: string;
+    capacity: number;
+}
+
+/** Neighbour links per district id, in district order. */
+export type AdjacencyIndex = Map<string, NeighborLink[]>;
+
+/**
+ * Builds the neighbour lookup once per edge set, so a tick is O(D + E)
+ * instead of rescanning every edge and district for each district.
+ */
+export const buildAdjacencyIndex = (city: CityGraph): AdjacencyIndex => {
+    const linked = new Map<string, Map<string, number>>();
+    const link = (from: string, to: string, capacity: number) => {
+        if (!linked.has(from)) linked.set(from, new Map());
+        const caps = linked.get(from)!;
+        caps.set(to, (caps.get(to) ?? 0) + capacity);
+    };
+    city.edges.forEach(e => {
+        link(e.sourceId, e.targetId, e.capacity);
+        link(e.targetId, e.sourceId, e.capacity);
+    });
+    const index: AdjacencyIndex = new Map();
+    city.districts.forEach(d => {
+        const caps = linked.get(d.id);
+        // Keep district order so floating-point sums are stable across rebuilds
+        index.set(d.id, caps ? city.districts.filter(n => caps.has(n.id)).map(n => ({ id: n.id, capacity: caps.get(n.id)! })) : []);
+    });
+    return index;
+};
+
+/** Share of a district's road traffic that its transit network takes off the roads. */
+export const divertedShare = (district: District, rules: SimulationRules): number =>
+    (district.stats.transitScore / 100) * rules.transitDiversion;
+
+export interface LinkFlow {
+    demand: number;   // Traffic trying to cross the link this tick
+    carried: number;  // What the road actually carries (at most its capacity)
+    overflow: number; // Backed-up traffic: stays queued at the sender and jams the road into the receiver
+}
+
+/**
+ * Traffic arriving from `from` over a road of the given capacity.
+ * Capacity is in traffic units per tick; anything above it jams.
+ */
+export const linkTrafficFlow = (from: District, capacity: number, rules: SimulationRules): LinkFlow => {
+    const demand = from.stats.trafficFlow * rules.trafficCoupling * (1 - divertedShare(from, rules));
+    const carried = Math.min(demand, capacity);
+    return { demand, carried, overflow: demand - carried };
+};
+
+/**
+ * How strongly trade flows across a road, relative to a standard one.
+ * Saturates at 2x so a huge highway can't run away with the feedback between neighbours.
+ */
+export const tradeWeight = (capacity: number, rules: SimulationRules): number => (2 * capacity) / (capacity + rules.referenceCapacity);
+
+/** Narrow roads let less pollution drift across; anything wider than standard carries the full amount. */
+export const pollutionWeight = (capacity: number, rules: SimulationRules): number => Math.min(1, capacity / rules.referenceCapacity);
+
+export interface DistrictFlowReport {
+    diverted: number; // Share of the district's own traffic riding transit
+    congestion: number; // Total backed-up traffic arriving this tick
+    links: { neighbor: District; capacity: number; inbound: LinkFlow }[];
+}
+
+/** Per-road breakdown of what the next tick will push into `district`, for the drawer. */
+export const describeDistrictFlows = (city: CityGraph, district: District, adjacency: AdjacencyIndex = buildAdjacencyIndex(city)): DistrictFlowReport => {
+    const rules = getCityRules(city);
+    const byId = new Map(city.districts.map(d => [d.id, d]));
+    const links = (adjacency.get(district.id) ?? [])
+        .filter(l => byId.has(l.id))
+        .map(({ id, capacity }) => {
+            const neighbor = byId.get(id)!;
+            return { neighbor, capacity, inbound: linkTrafficFlow(neighbor, capacity, rules) };
+        });
+    return {
+        diverted: divertedShare(district, rules),
+        congestion: links.reduce((sum, l) => sum + l.inbound.overflow, 0),
+        links
+    };
+};
+
+export interface RoadFlow {
+    demand: number;  // Traffic trying to use the road this tick, both directions
+    overflow: number; // The part of it that jams
+    load: number;    // Demand over what the road can carry both ways; above 1 is congested
+}
+
+/** Traffic on the road between `a` and `b`, summed over both directions. */
+export const describeRoadFlow = (a: District, b: District, capacity: number, rules: SimulationRules): RoadFlow => {
+    const there = linkTrafficFlow(a, capacity, rules);
+    const back = linkTrafficFlow(b, capacity, rules);
+    const demand = there.demand + back.demand;
+    return { demand, overflow: there.overflow + back.overflow, load: capacity > 0 ? demand / (2 * capacity) : 0 };
+};
+
+export interface PopulationReport {
+    capacity: number;
+    attractiveness: number;
+    natural: number; // Births minus departures next tick
+    moves: { neighbor: District; inbound: number }[]; // Per road; negative means residents leaving
+}
+
+/** Where the district's residents are heading next tick, for the drawer. */
+export const describePopulation = (city: CityGraph, district: District): PopulationReport => {
+    const rules = getCityRules(city);
+    const byId = new Map(city.districts.map(d => [d.id, d]));
+    const capacity = housingCapacity(district);
+    return {
+        capacity,
+        attractiveness: attractiveness(district, capacity),
+        natural: Math.round(naturalChange(district, rules, capacity)),
+        moves: (buildAdjacencyIndex(city).get(district.id) ?? [])
+            .filter(l => byId.has(l.id))
+            .map(({ id, capacity: roadCapacity }) => {
+                const neighbor = byId.get(id)!;
+                return { neighbor, inbound: migrationFlow(neighbor, district, roadCapacity, rules) };
+            })
+    };
+};
 
 /**
  * Runs one tick of the simulation.
- * Updates stats based on neighbors and internal logic.
+ * Updates stats based on neighbors and internal logic, weighted by the city's rules.
+ * All noise is derived from `rng`, so the same seed state gives the same tick.
+ * Each district gets its own stream, so one district's noise doesn't depend on which others exist.
+ * Pass a cached `adjacency` when the edges haven't changed since it was built.
  */
-export const runSimulationTick = (city: CityGraph): CityGraph => {
+export const runSimulationTick = (city: CityGraph, rng: Rng, adjacency: AdjacencyIndex = buildAdjacencyIndex(city)): CityGraph => {
+    const byId = new Map(city.districts.map(d => [d.id, d]));
+    const rules = getCityRules(city);
+    const populations = nextPopulations(city, adjacency, rules);
+    const tickSeed = drawTickSeed(rng);
+
     const newDistricts = city.districts.map(d => {
         // 1. Clone stats to avoid mutation during calculation
         const nextStats = { ...d.stats };
 
-        // 2. Identify neighbors via edges
-        const neighborIds = city.edges
-            .filter(e => e.sourceId === d.id || e.targetId === d.id)
-            .map(e => e.sourceId === d.id ? e.targetId : e.sourceId);
-        
-        const neighbors = city.districts.filter(n => neighborIds.includes(n.id));
+        // 2. Identify neighbors via the adjacency index
+        const base = rules.base[d.type];
+        const links = (adjacency.get(d.id) ?? []).filter(l => byId.has(l.id));
 
         // 3. Calculate Deltas
         let trafficInflux = 0;
         let pollutionInflux = 0;
         let economyBoost = 0;
         let happinessBoost = 0;
+        let congestion = 0;
+        let queued = 0;
 
-        neighbors.forEach(n => {
-            // Traffic Sharing: High transit score reduces local traffic but might export it
-            trafficInflux += n.stats.trafficFlow * TRAFFIC_COUPLING;
-            
-            // Pollution Spread
-            pollutionInflux += n.stats.pollution * POLLUTION_SPREAD;
-
-            // Economy Complementarity
-            // If I am Res and Neighbor is Comm/Ind, we both benefit
-            const isComplementary = 
-                (d.type === 'residential' && (n.type === 'commercial' || n.type === 'industrial')) ||
-                ((d.type === 'commercial' || d.type === 'industrial') && n.type === 'residential');
-            
-            if (isComplementary) {
-                economyBoost += n.stats.economy * ECONOMY_SYNERGY;
-                happinessBoost += 2; // Commute to work is available
-            }
+        links.forEach(({ id, capacity }) => {
+            const n = byId.get(id)!;
+
+            // Traffic Sharing: only what the road carries arrives; the rest stays queued on the sending side.
+            // Transit takes part of each district's traffic off the road entirely.
+            const inbound = linkTrafficFlow(n, capacity, rules);
+            trafficInflux += inbound.carried;
+            congestion += inbound.overflow;
+            queued += linkTrafficFlow(d, capacity, rules).overflow;
+
+            // Pollution Spread, weaker along narrow roads
+            pollutionInflux += n.stats.pollution * rules.pollutionSpread * pollutionWeight(capacity, rules);
+
+            // Type-to-type interactions (e.g. homes next to jobs); trade grows with road size
+            const interaction = rules.interactions[d.type][n.type];
+            economyBoost += n.stats.economy * interaction.economy * tradeWeight(capacity, rules);
+            happinessBoost += interaction.happiness;
         });
 
         // 4. Apply Logic
         
         // Traffic decay (road improvements) vs Influx
         nextStats.trafficFlow = Math.max(0, Math.min(100, 
-            (d.stats.trafficFlow * 0.95) + trafficInflux + (d.stats.population * 0.01)
+            (d.stats.trafficFlow * rules.trafficDecay) + trafficInflux + queued
+                + (d.stats.population * rules.trafficPerResident * (1 - divertedShare(d, rules)))
         ));
 
         // Pollution decay vs Influx
         nextStats.pollution = Math.max(0, Math.min(100, 
-            (d.stats.pollution * 0.98) + pollutionInflux + (d.type === 'industrial' ? 2 : 0) - (d.visuals.greenery * 5)
+            (d.stats.pollution * rules.pollutionDecay) + pollutionInflux + base.pollution - (d.visuals.greenery * rules.greeneryCleanup)
         ));
 
         // Economy fluctuations
         nextStats.economy = Math.max(0, Math.min(100, 
-            d.stats.economy + economyBoost + (Math.random() * 2 - 1)
+            d.stats.economy + economyBoost + base.economy + deriveRng(tickSeed, d.id).range(-1, 1)
         ));
 
         // Happiness: -(Traffic + Pollution) + Economy + Greenery
-        const baseHappiness = 50;
-        const penalties = (nextStats.trafficFlow * 0.2) + (nextStats.pollution * 0.4);
-        const bonuses = (nextStats.economy * 0.3) + (d.visuals.greenery * 20) + happinessBoost;
+        const penalties = (nextStats.trafficFlow * rules.trafficUnhappiness) + (nextStats.pollution * rules.pollutionUnhappiness)
+            + (congestion * rules.congestionPenalty);
+        const bonuses = (nextStats.economy * rules.economyHappiness) + (d.visuals.greenery * rules.greeneryHappiness) + happinessBoost + base.happiness;
         
         nextStats.happiness = Math.max(0, Math.min(100, 
-            baseHappiness - penalties + bonuses
+            rules.baseHappiness - penalties + bonuses
         ));
 
+        // Residents are born, leave and move last, reacting to the district as it was at the start of the day
+        nextStats.population = populations.get(d.id) ?? d.stats.population;
+
         return {
             ...d,
             stats: nextStats
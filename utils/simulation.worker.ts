@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createSimulationEngine, SimWorkerRequest, SimWorkerResponse } from './simulationEngine';
+import { forecastWhatIf } from './whatIf';
+
+// Runs the city simulation off the UI thread so panning stays smooth on large cities.
+
+const ctx = self as unknown as Worker;
+const engine = createSimulationEngine();
+
+ctx.onmessage = (e: MessageEvent<SimWorkerRequest>) => {
+    const msg = e.data;
+    if (msg.type === 'reset') {
+        engine.reset(msg.state);
+        return;
+    }
+    const count = msg.type === 'batch' ? msg.count : 1;
+    let response: SimWorkerResponse;
+    try {
+        response = msg.type === 'forecast'
+            ? { type: 'forecast', requestId: msg.requestId, forecast: forecastWhatIf(msg.state, msg.action, msg.districtId, msg.days) }
+            : { type: 'result', requestId: msg.requestId, result: engine.run(count) };
+    } catch (err) {
+        response = { type: 'error', requestId: msg.requestId, message: (err as Error).message };
+    }
+    ctx.postMessage(response);
+};
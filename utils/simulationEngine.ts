@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityAction, CityEvent, CityGraph, DistrictStats, LoggedAction, SimState, WhatIfForecast } from '../types';
+import { advanceTick, applyDueReplayActions } from './cityActions';
+import { AdjacencyIndex, buildAdjacencyIndex } from './simulation';
+
+export interface EngineState extends SimState {
+    replayQueue: LoggedAction[];
+}
+
+/** What one simulated day changed. Only districts whose stats moved are included. */
+export interface TickDelta {
+    tickCount: number;
+    changedStats: Record<string, DistrictStats>;
+    /** Present only when a replayed action changed the city's structure that day. */
+    city?: CityGraph;
+    replayConsumed: number;
+    startedEvents: CityEvent[];
+}
+
+export interface EngineResult {
+    ticks: TickDelta[];
+    rngState: number;
+    treasury: number;
+    events: CityEvent[]; // Active after the last tick
+}
+
+// Message protocol between the UI thread and simulation.worker.ts
+
+export type SimWorkerRequest =
+    | { type: 'reset'; state: EngineState }
+    | { type: 'tick'; requestId: number }
+    | { type: 'batch'; requestId: number; count: number }
+    // Stateless: simulates a fork of `state` and leaves the engine's own copy alone
+    | { type: 'forecast'; requestId: number; state: SimState; action: CityAction; districtId: string; days: number };
+
+export type SimWorkerResponse =
+    | { type: 'result'; requestId: number; result: EngineResult }
+    | { type: 'forecast'; requestId: number; forecast: WhatIfForecast }
+    | { type: 'error'; requestId: number; message: string };
+
+const STAT_FIELDS: (keyof DistrictStats)[] = ['population', 'trafficFlow', 'pollution', 'happiness', 'economy', 'transitScore'];
+
+const statsEqual = (a: DistrictStats, b: DistrictStats) => STAT_FIELDS.every(k => a[k] === b[k]);
+
+/**
+ * Holds a copy of the simulation state and advances it, caching the adjacency
+ * index until the city's structure changes. Runs inside the worker, or on the
+ * main thread when workers are unavailable.
+ */
+export const createSimulationEngine = () => {
+    let state: EngineState | null = null;
+    let adjacency: AdjacencyIndex | null = null;
+
+    const reset = (next: EngineState) => {
+        state = next;
+        adjacency = buildAdjacencyIndex(next.city);
+    };
+
+    const run = (count: number): EngineResult => {
+        if (!state || !adjacency) throw new Error('Simulation engine used before reset');
+        const ticks: TickDelta[] = [];
+
+        for (let i = 0; i < count; i++) {
+            const before = state.city;
+            const queued = state.replayQueue.length;
+            const next = applyDueReplayActions({ ...advanceTick(state, adjacency), replayQueue: state.replayQueue });
+            const replayConsumed = queued - next.replayQueue.length;
+
+            const delta: TickDelta = {
+                tickCount: next.tickCount,
+                changedStats: {},
+                replayConsumed,
+                startedEvents: next.events.filter(e => e.startTick === next.tickCount)
+            };
+            if (replayConsumed > 0) {
+                adjacency = buildAdjacencyIndex(next.city);
+                delta.city = next.city;
+            } else {
+                const previous = new Map(before.districts.map(d => [d.id, d.stats]));
+                next.city.districts.forEach(d => {
+                    const old = previous.get(d.id);
+                    if (!old || !statsEqual(old, d.stats)) delta.changedStats[d.id] = d.stats;
+                });
+            }
+            ticks.push(delta);
+            state = next;
+        }
+        return { ticks, rngState: state.rngState, treasury: state.treasury, events: state.events };
+    };
+
+    return { reset, run };
+};
+
+export type SimulationEngine = ReturnType<typeof createSimulationEngine>;
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityGraph, DistrictType, DistrictTypeRules, InteractionRule, SimulationRules } from '../types';
+import { DISTRICT_TYPES } from '../constants';
+
+export type RulePresetId = 'realistic' | 'sandbox';
+
+type GlobalRuleKey = Exclude<keyof SimulationRules, 'base' | 'interactions'>;
+
+interface RuleRange {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+/** Editable bounds for every rule; the settings panel and file import both use these. */
+export const GLOBAL_RULE_RANGES: Record<GlobalRuleKey, RuleRange> = {
+    trafficCoupling: { label: 'Traffic spillover', min: 0, max: 1, step: 0.01 },
+    pollutionSpread: { label: 'Pollution spread', min: 0, max: 1, step: 0.01 },
+    trafficDecay: { label: 'Traffic decay', min: 0, max: 1, step: 0.01 },
+    pollutionDecay: { label: 'Pollution decay', min: 0, max: 1, step: 0.01 },
+    trafficPerResident: { label: 'Traffic per resident', min: 0, max: 0.1, step: 0.001 },
+    greeneryCleanup: { label: 'Greenery cleanup', min: 0, max: 20, step: 0.5 },
+    referenceCapacity: { label: 'Standard road capacity', min: 1, max: 100, step: 1 },
+    transitDiversion: { label: 'Transit diversion', min: 0, max: 1, step: 0.05 },
+    congestionPenalty: { label: 'Congestion penalty', min: 0, max: 5, step: 0.1 },
+    baseHappiness: { label: 'Base happiness', min: 0, max: 100, step: 1 },
+    trafficUnhappiness: { label: 'Traffic unhappiness', min: 0, max: 1, step: 0.05 },
+    pollutionUnhappiness: { label: 'Pollution unhappiness', min: 0, max: 1, step: 0.05 },
+    economyHappiness: { label: 'Economy happiness', min: 0, max: 1, step: 0.05 },
+    greeneryHappiness: { label: 'Greenery happiness', min: 0, max: 50, step: 1 },
+    growthRate: { label: 'Population growth', min: 0, max: 0.05, step: 0.001 },
+    migrationRate: { label: 'Migration', min: 0, max: 0.2, step: 0.005 }
+};
+
+export const BASE_RULE_RANGES: Record<keyof DistrictTypeRules, RuleRange> = {
+    pollution: { label: 'Pollution', min: -10, max: 10, step: 0.5 },
+    happiness: { label: 'Happiness', min: -50, max: 50, step: 1 },
+    economy: { label: 'Economy', min: -5, max: 5, step: 0.1 }
+};
+
+export const INTERACTION_RULE_RANGES: Record<keyof InteractionRule, RuleRange> = {
+    economy: { label: 'Economy synergy', min: -0.5, max: 0.5, step: 0.01 },
+    happiness: { label: 'Happiness', min: -20, max: 20, step: 0.5 }
+};
+
+const neutralBase = (): Record<DistrictType, DistrictTypeRules> =>
+    Object.fromEntries(DISTRICT_TYPES.map(t => [t, { pollution: 0, happiness: 0, economy: 0 }])) as Record<DistrictType, DistrictTypeRules>;
+
+const neutralInteractions = (): Record<DistrictType, Record<DistrictType, InteractionRule>> =>
+    Object.fromEntries(DISTRICT_TYPES.map(self => [
+        self,
+        Object.fromEntries(DISTRICT_TYPES.map(other => [other, { economy: 0, happiness: 0 }]))
+    ])) as Record<DistrictType, Record<DistrictType, InteractionRule>>;
+
+/** Marks `a` and `b` as complementary in both directions. */
+const pair = (matrix: SimulationRules['interactions'], a: DistrictType, b: DistrictType, rule: InteractionRule) => {
+    matrix[a][b] = { ...rule };
+    matrix[b][a] = { ...rule };
+};
+
+const createRealisticRules = (): SimulationRules => {
+    const base = neutralBase();
+    base.industrial.pollution = 2;
+
+    // Homes next to jobs: both sides share in the other's economy and the commute is short
+    const interactions = neutralInteractions();
+    pair(interactions, 'residential', 'commercial', { economy: 0.05, happiness: 2 });
+    pair(interactions, 'residential', 'industrial', { economy: 0.05, happiness: 2 });
+
+    return {
+        trafficCoupling: 0.15,
+        pollutionSpread: 0.08,
+        trafficDecay: 0.95,
+        pollutionDecay: 0.98,
+        trafficPerResident: 0.01,
+        greeneryCleanup: 5,
+        referenceCapacity: 10,
+        transitDiversion: 0.6,
+        congestionPenalty: 1,
+        baseHappiness: 50,
+        trafficUnhappiness: 0.2,
+        pollutionUnhappiness: 0.4,
+        economyHappiness: 0.3,
+        greeneryHappiness: 20,
+        growthRate: 0.005,
+        migrationRate: 0.05,
+        base,
+        interactions
+    };
+};
+
+const createSandboxRules = (): SimulationRules => {
+    const base = neutralBase();
+    base.industrial.pollution = 0.5;
+    base.park.happiness = 5;
+    base.civic.happiness = 3;
+    base.commercial.economy = 0.2;
+
+    const interactions = neutralInteractions();
+    pair(interactions, 'residential', 'commercial', { economy: 0.08, happiness: 3 });
+    pair(interactions, 'residential', 'industrial', { economy: 0.06, happiness: 1 });
+    pair(interactions, 'residential', 'park', { economy: 0, happiness: 4 });
+    pair(interactions, 'commercial', 'industrial', { economy: 0.04, happiness: 0 });
+
+    return {
+        trafficCoupling: 0.08,
+        pollutionSpread: 0.03,
+        trafficDecay: 0.9,
+        pollutionDecay: 0.9,
+        trafficPerResident: 0.005,
+        greeneryCleanup: 8,
+        referenceCapacity: 10,
+        transitDiversion: 0.8,
+        congestionPenalty: 0.3,
+        baseHappiness: 50,
+        trafficUnhappiness: 0.1,
+        pollutionUnhappiness: 0.25,
+        economyHappiness: 0.3,
+        greeneryHappiness: 25,
+        growthRate: 0.01,
+        migrationRate: 0.08,
+        base,
+        interactions
+    };
+};
+
+export const RULE_PRESETS: Record<RulePresetId, { label: string; description: string; rules: SimulationRules }> = {
+    realistic: {
+        label: 'Realistic',
+        description: 'Industry pollutes, busy roads jam, and homes thrive next to jobs.',
+        rules: createRealisticRules()
+    },
+    sandbox: {
+        label: 'Sandbox',
+        description: 'Forgiving balance for free building: pollution and traffic clear quickly.',
+        rules: createSandboxRules()
+    }
+};
+
+export const DEFAULT_RULES = RULE_PRESETS.realistic.rules;
+
+// Cached so the same saved rules always resolve to the same object
+const filledRules = new WeakMap<SimulationRules, SimulationRules>();
+
+/** The city's rules, with any fields added since they were saved taken from the default preset. */
+export const getCityRules = (city: CityGraph): SimulationRules => {
+    if (!city.rules) return DEFAULT_RULES;
+    let filled = filledRules.get(city.rules);
+    if (!filled) {
+        filled = { ...DEFAULT_RULES, ...city.rules };
+        filledRules.set(city.rules, filled);
+    }
+    return filled;
+};
+
+/** Which preset `rules` matches exactly, or null for a custom configuration. */
+export const matchRulePreset = (rules: SimulationRules): RulePresetId | null => {
+    const serialized = JSON.stringify(rules);
+    const match = (Object.keys(RULE_PRESETS) as RulePresetId[]).find(id => JSON.stringify(RULE_PRESETS[id].rules) === serialized);
+    return match ?? null;
+};
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const checkRule = (errors: string[], path: string, value: unknown, range: RuleRange) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path} must be a number`);
+    else if (value < range.min || value > range.max) errors.push(`${path} is ${value}, expected ${range.min}–${range.max}`);
+};
+
+/**
+ * Validates an untrusted rule set, e.g. from an imported city file.
+ * Every district type must be present in both the base table and the interaction matrix.
+ * Missing global rules are allowed, since getCityRules fills them in for files from before they existed.
+ */
+export const validateRules = (raw: unknown, path = 'rules'): string[] => {
+    if (!isObject(raw)) return [`${path} must be an object`];
+    const errors: string[] = [];
+
+    (Object.keys(GLOBAL_RULE_RANGES) as GlobalRuleKey[])
+        .filter(key => raw[key] !== undefined)
+        .forEach(key => checkRule(errors, `${path}.${key}`, raw[key], GLOBAL_RULE_RANGES[key]));
+
+    DISTRICT_TYPES.forEach(self => {
+        const base = isObject(raw.base) ? raw.base[self] : undefined;
+        if (!isObject(base)) {
+            errors.push(`${path}.base.${self} must be an object`);
+        } else {
+            (Object.keys(BASE_RULE_RANGES) as (keyof DistrictTypeRules)[])
+                .forEach(key => checkRule(errors, `${path}.base.${self}.${key}`, base[key], BASE_RULE_RANGES[key]));
+        }
+
+        const row = isObject(raw.interactions) ? raw.interactions[self] : undefined;
+        DISTRICT_TYPES.forEach(other => {
+            const cell = isObject(row) ? row[other] : undefined;
+            if (!isObject(cell)) {
+                errors.push(`${path}.interactions.${self}.${other} must be an object`);
+                return;
+            }
+            (Object.keys(INTERACTION_RULE_RANGES) as (keyof InteractionRule)[])
+                .forEach(key => checkRule(errors, `${path}.interactions.${self}.${other}.${key}`, cell[key], INTERACTION_RULE_RANGES[key]));
+        });
+    });
+
+    return errors;
+};
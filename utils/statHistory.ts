@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityGraph, DistrictStats, StatHistory, StatSample } from '../types';
+
+/** Number of ticks kept per series; older samples fall off the front. */
+export const HISTORY_LENGTH = 200;
+
+export const STAT_KEYS: (keyof DistrictStats)[] = ['population', 'happiness', 'pollution', 'trafficFlow', 'economy', 'transitScore'];
+
+export const STAT_LABELS: Record<keyof DistrictStats, string> = {
+    population: 'Population',
+    happiness: 'Happiness',
+    pollution: 'Pollution',
+    trafficFlow: 'Traffic',
+    economy: 'Economy',
+    transitScore: 'Transit'
+};
+
+export const STAT_COLORS: Record<keyof DistrictStats, string> = {
+    population: '#6366f1',
+    happiness: '#fbbf24',
+    pollution: '#71717a',
+    trafficFlow: '#ef4444',
+    economy: '#10b981',
+    transitScore: '#0ea5e9'
+};
+
+export const createStatHistory = (): StatHistory => ({ city: [], districts: {} });
+
+const pushBounded = <T,>(buffer: T[] | undefined, item: T): T[] => {
+    const next = buffer ? [...buffer, item] : [item];
+    return next.length > HISTORY_LENGTH ? next.slice(next.length - HISTORY_LENGTH) : next;
+};
+
+/**
+ * City-wide aggregate: total population, plain averages for the 0-100 stats.
+ */
+export const aggregateCityStats = (city: CityGraph): DistrictStats => {
+    const n = city.districts.length || 1;
+    const sum = (key: keyof DistrictStats) => city.districts.reduce((a, d) => a + d.stats[key], 0);
+    return {
+        population: sum('population'),
+        trafficFlow: sum('trafficFlow') / n,
+        pollution: sum('pollution') / n,
+        happiness: sum('happiness') / n,
+        economy: sum('economy') / n,
+        transitScore: sum('transitScore') / n
+    };
+};
+
+/**
+ * Appends one sample per district plus the city aggregate.
+ * Series for districts that no longer exist are dropped.
+ */
+export const recordStatHistory = (history: StatHistory, city: CityGraph, tick: number): StatHistory => {
+    const districts: Record<string, StatSample[]> = {};
+    city.districts.forEach(d => {
+        districts[d.id] = pushBounded(history.districts[d.id], { tick, stats: d.stats });
+    });
+    return {
+        city: pushBounded(history.city, { tick, stats: aggregateCityStats(city) }),
+        districts
+    };
+};
+
+export const seriesOf = (samples: StatSample[] | undefined, key: keyof DistrictStats): number[] =>
+    (samples ?? []).map(s => s.stats[key]);
@@ -4,9 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { Session } from '../types';
+import { Session, AiSettings, DisplaySettings } from '../types';
+import { DEFAULT_AI_SETTINGS } from './aiProvider';
 
 const STORAGE_KEY = 'flash_ui_sessions_v1';
+const AI_SETTINGS_KEY = 'flash_ui_ai_settings_v1';
+const DISPLAY_SETTINGS_KEY = 'flash_ui_display_settings_v1';
 
 /**
  * Loads sessions from localStorage.
@@ -45,3 +48,57 @@ export const clearSessions = (): void => {
     console.error('Failed to clear sessions:', e);
   }
 };
+
+/**
+ * Loads the chosen AI provider and model, falling back to defaults.
+ */
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const serialized = localStorage.getItem(AI_SETTINGS_KEY);
+    if (!serialized) return DEFAULT_AI_SETTINGS;
+    return { ...DEFAULT_AI_SETTINGS, ...JSON.parse(serialized) };
+  } catch (e) {
+    console.error('Failed to load AI settings from local storage:', e);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+/**
+ * Persists the chosen AI provider and model.
+ */
+export const saveAiSettings = (settings: AiSettings): void => {
+  try {
+    localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save AI settings to local storage:', e);
+  }
+};
+
+const defaultDisplaySettings = (): DisplaySettings => ({
+  animateTraffic: !window.matchMedia?.('(prefers-reduced-motion: reduce)').matches
+});
+
+/**
+ * Loads display preferences; traffic animation defaults off when the system asks for reduced motion.
+ */
+export const loadDisplaySettings = (): DisplaySettings => {
+  try {
+    const serialized = localStorage.getItem(DISPLAY_SETTINGS_KEY);
+    if (!serialized) return defaultDisplaySettings();
+    return { ...defaultDisplaySettings(), ...JSON.parse(serialized) };
+  } catch (e) {
+    console.error('Failed to load display settings from local storage:', e);
+    return defaultDisplaySettings();
+  }
+};
+
+/**
+ * Persists display preferences.
+ */
+export const saveDisplaySettings = (settings: DisplaySettings): void => {
+  try {
+    localStorage.setItem(DISPLAY_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save display settings to local storage:', e);
+  }
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityAction, DistrictStats, SimState, WhatIfForecast } from '../types';
+import { advanceTick, applyCityAction } from './cityActions';
+import { aggregateCityStats } from './statHistory';
+import { buildAdjacencyIndex } from './simulation';
+
+/** Days simulated when previewing a staged district. */
+export const WHAT_IF_DAYS = 30;
+
+/**
+ * Runs the city forward `days` twice, once as-is and once with `action` applied
+ * first. Both forks start from the same rng state and every district draws its
+ * noise from a stream keyed by its id, so a district sees the same noise in both
+ * forks and any difference comes from the action.
+ */
+export const forkSimulation = (state: SimState, action: CityAction, days: number): { without: SimState; with: SimState } => {
+    let without = state;
+    let withAction: SimState = { ...applyCityAction(state, action), rngState: state.rngState };
+    // Structure doesn't change while forecasting, so each fork's adjacency is built once
+    const withoutAdjacency = buildAdjacencyIndex(without.city);
+    const withAdjacency = buildAdjacencyIndex(withAction.city);
+    for (let i = 0; i < days; i++) {
+        without = advanceTick(without, withoutAdjacency);
+        withAction = advanceTick(withAction, withAdjacency);
+    }
+    return { without, with: withAction };
+};
+
+/**
+ * Before/after comparison for building `districtId` with `action`: the city
+ * averages and each district it would be connected to, after `days` without and
+ * with it.
+ */
+export const forecastWhatIf = (state: SimState, action: CityAction, districtId: string, days = WHAT_IF_DAYS): WhatIfForecast => {
+    const forks = forkSimulation(state, action, days);
+    const statsById = (s: SimState) => new Map<string, DistrictStats>(s.city.districts.map(d => [d.id, d.stats]));
+    const before = statsById(forks.without);
+    const after = statsById(forks.with);
+
+    const neighborIds = forks.with.city.edges.flatMap(e =>
+        e.sourceId === districtId ? [e.targetId] : e.targetId === districtId ? [e.sourceId] : []
+    );
+    return {
+        days,
+        treasury: { before: forks.without.treasury, after: forks.with.treasury },
+        city: { before: aggregateCityStats(forks.without.city), after: aggregateCityStats(forks.with.city) },
+        neighbors: neighborIds
+            .filter(id => before.has(id) && after.has(id))
+            .map(id => ({ id, before: before.get(id)!, after: after.get(id)! })),
+        district: after.get(districtId) ?? null
+    };
+};